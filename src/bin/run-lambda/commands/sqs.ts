@@ -7,14 +7,22 @@ import { loadModules } from "../util/modules";
 import {
   GLOBAL_OPTIONS_SCHEMA as BASE_OPTIONS_SCHEMA,
   INTEGER_STRING,
+  NON_NEGATIVE_INTEGER,
   POSITIVE_INTEGER,
   resolveOptionValue,
 } from "../util/options";
 import { argParser, parseOptions } from "../util/parse-options";
 
 const BATCH_SIZE_OPTION = "-b, --batch-size <number>";
+const BATCHING_WINDOW_OPTION = "-w, --batching-window <seconds>";
+const FILTER_CRITERIA_OPTION = "-f, --filter-criteria <json>";
+const MAXIMUM_CONCURRENCY_OPTION = "-m, --maximum-concurrency <number>";
 const QUEUE_NAME_OPTION = "-q, --queue-name <name>";
 
+const FILTER_CRITERIA_SCHEMA = z.object({
+  Filters: z.array(z.object({ Pattern: z.string() })),
+});
+
 const OPTIONS_SCHEMA = BASE_OPTIONS_SCHEMA.extend({
   batchSize: z.union([
     z
@@ -26,6 +34,53 @@ const OPTIONS_SCHEMA = BASE_OPTIONS_SCHEMA.extend({
       .pipe(POSITIVE_INTEGER),
     POSITIVE_INTEGER,
   ]),
+  batchingWindow: z
+    .union([
+      z
+        .union([
+          z
+            .string()
+            .transform((v) => resolveOptionValue(BATCHING_WINDOW_OPTION, v)),
+          INTEGER_STRING,
+        ])
+        .transform((v) => parseInt(v))
+        .pipe(NON_NEGATIVE_INTEGER),
+      NON_NEGATIVE_INTEGER,
+    ])
+    .optional(),
+  filterCriteria: z
+    .union([
+      z
+        .string()
+        .transform((v) => resolveOptionValue(FILTER_CRITERIA_OPTION, v))
+        .transform((v, ctx) => {
+          try {
+            return JSON.parse(v) as unknown;
+          } catch {
+            ctx.addIssue({ code: "custom", message: "Invalid JSON." });
+            return z.NEVER;
+          }
+        })
+        .pipe(FILTER_CRITERIA_SCHEMA),
+      FILTER_CRITERIA_SCHEMA,
+    ])
+    .optional(),
+  maximumConcurrency: z
+    .union([
+      z
+        .union([
+          z
+            .string()
+            .transform((v) =>
+              resolveOptionValue(MAXIMUM_CONCURRENCY_OPTION, v),
+            ),
+          INTEGER_STRING,
+        ])
+        .transform((v) => parseInt(v))
+        .pipe(POSITIVE_INTEGER),
+      POSITIVE_INTEGER,
+    ])
+    .optional(),
   queueName: z
     .string()
     .transform((v) => resolveOptionValue(QUEUE_NAME_OPTION, v)),
@@ -47,6 +102,48 @@ export default new Command("sqs")
         ),
       ),
   )
+  .addOption(
+    new Option(
+      BATCHING_WINDOW_OPTION,
+      "The maximum time in seconds to gather messages before invoking the handler with an incomplete batch.",
+    )
+      .conflicts("config")
+      .argParser((v) =>
+        argParser(
+          v,
+          OPTIONS_SCHEMA.shape.batchingWindow,
+          "The batching window must be an integer greater or equal to 0.",
+        ),
+      ),
+  )
+  .addOption(
+    new Option(
+      FILTER_CRITERIA_OPTION,
+      "The filter criteria of the event source mapping in JSON format.",
+    )
+      .conflicts("config")
+      .argParser((v) =>
+        argParser(
+          v,
+          OPTIONS_SCHEMA.shape.filterCriteria,
+          "The filter criteria must be a JSON object with a 'Filters' array of '{ Pattern: string }' objects.",
+        ),
+      ),
+  )
+  .addOption(
+    new Option(
+      MAXIMUM_CONCURRENCY_OPTION,
+      "The number of concurrent invocations of the handler.",
+    )
+      .conflicts("config")
+      .argParser((v) =>
+        argParser(
+          v,
+          OPTIONS_SCHEMA.shape.maximumConcurrency,
+          "The maximum concurrency must be an integer greater or equal to 1.",
+        ),
+      ),
+  )
   .addOption(
     new Option(QUEUE_NAME_OPTION, "The SQS queue name.")
       .conflicts("config")
@@ -72,10 +169,13 @@ export default new Command("sqs")
     // poll SQS queue, invoke Lamda handler
     await SqsLambdaHelper.runSqsLambda({
       abortSignal: abortController.signal,
+      batchingWindow: options.batchingWindow,
       batchSize: options.batchSize,
       endpoint: options.endpoint,
+      filterCriteria: options.filterCriteria,
       handler,
       logger,
+      maximumConcurrency: options.maximumConcurrency,
       queue: { name: options.queueName },
       timeout: options.timeout,
     });
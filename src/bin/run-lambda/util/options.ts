@@ -12,6 +12,7 @@ export interface ConfigFileOptions {
 }
 
 export const INTEGER_STRING = z.string().regex(/^\d+$/);
+export const NON_NEGATIVE_INTEGER = z.number().int().min(0);
 export const POSITIVE_INTEGER = z.number().int().min(1);
 
 /** The schema of the global options. */
@@ -0,0 +1,24 @@
+import type { Codec, EncodedMessage } from "./codec";
+
+/** The valid base64 bodies. */
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Implements a {@link Codec} with base64-encoded binary bodies, e.g. of serialized protobuf or Avro payloads which are
+ * then decoded by the caller.
+ */
+export class BinaryCodec implements Codec<Uint8Array> {
+  /** {@inheritdoc} */
+  decode(body: string): Uint8Array {
+    if (body.length % 4 || !BASE64_PATTERN.test(body)) {
+      throw new Error(`Invalid base64 body: ${body}`);
+    }
+
+    return new Uint8Array(Buffer.from(body, "base64"));
+  }
+
+  /** {@inheritdoc} */
+  encode(value: Uint8Array): EncodedMessage {
+    return { body: Buffer.from(value).toString("base64") };
+  }
+}
@@ -0,0 +1,30 @@
+import type {
+  DecodedMessageAttributeValue,
+  MessageAttributesInput,
+} from "../sqs/sqs-message-attributes";
+
+/** Encodes values into SQS message bodies and decodes them back, e.g. JSON, compressed or binary payloads. */
+export interface Codec<T> {
+  /**
+   * Decodes a message body.
+   * @param body The message body.
+   * @param attributes The decoded message attributes, e.g. a schema ID.
+   * @throws {Error} if the body cannot be decoded.
+   */
+  decode(
+    body: string,
+    attributes: Readonly<Record<string, DecodedMessageAttributeValue>>,
+  ): T;
+
+  /** Encodes a value into a message body and, optionally, message attributes. */
+  encode(value: T): EncodedMessage;
+}
+
+/** A value encoded by a {@link Codec}. */
+export interface EncodedMessage {
+  /** The message attributes, e.g. a schema ID. See {@link SqsMessageAttributes.encode}. */
+  readonly attributes?: MessageAttributesInput;
+
+  /** The message body. */
+  readonly body: string;
+}
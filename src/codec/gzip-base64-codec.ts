@@ -0,0 +1,32 @@
+import { gunzipSync, gzipSync } from "node:zlib";
+
+import type { DecodedMessageAttributeValue } from "../sqs/sqs-message-attributes";
+import type { Codec, EncodedMessage } from "./codec";
+import { JsonCodec } from "./json-codec";
+
+/** Implements a {@link Codec} with gzip-compressed and base64-encoded bodies, e.g. of large JSON payloads. */
+export class GzipBase64Codec<T = unknown> implements Codec<T> {
+  readonly #codec: Codec<T>;
+
+  /** @param codec The codec of the uncompressed bodies, JSON by default. */
+  constructor(codec: Codec<T> = new JsonCodec<T>()) {
+    this.#codec = codec;
+  }
+
+  /** {@inheritdoc} */
+  decode(
+    body: string,
+    attributes: Readonly<Record<string, DecodedMessageAttributeValue>>,
+  ): T {
+    return this.#codec.decode(
+      gunzipSync(Buffer.from(body, "base64")).toString(),
+      attributes,
+    );
+  }
+
+  /** {@inheritdoc} */
+  encode(value: T): EncodedMessage {
+    const { body, ...rest } = this.#codec.encode(value);
+    return { ...rest, body: gzipSync(body).toString("base64") };
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./binary-codec";
+export * from "./codec";
+export * from "./gzip-base64-codec";
+export * from "./json-codec";
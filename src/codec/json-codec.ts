@@ -0,0 +1,14 @@
+import type { Codec, EncodedMessage } from "./codec";
+
+/** Implements a {@link Codec} with JSON bodies. */
+export class JsonCodec<T = unknown> implements Codec<T> {
+  /** {@inheritdoc} */
+  decode(body: string): T {
+    return JSON.parse(body) as T;
+  }
+
+  /** {@inheritdoc} */
+  encode(value: T): EncodedMessage {
+    return { body: JSON.stringify(value) };
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  AsyncResource,
+  createHook,
+  executionAsyncId,
+  type HookCallbacks,
+} from "node:async_hooks";
+import { setTimeout } from "node:timers/promises";
+
+/** An asynchronous resource created by a Lambda handler that is still alive. */
+export interface PendingAsyncResource {
+  /**
+   * The kind of resource:
+   * - `handle`: e.g. a socket, a server or a file system request.
+   * - `promise`: a pending promise.
+   * - `timer`: a timeout, interval or immediate.
+   */
+  readonly kind: "handle" | "promise" | "timer";
+
+  /** The `async_hooks` resource type, e.g. `Timeout` or `TCPWRAP`. */
+  readonly type: string;
+}
+
+interface TrackedResource {
+  /** The resource object, to check whether it keeps the event loop alive. */
+  readonly resource: object;
+
+  /** The `async_hooks` resource type. */
+  readonly type: string;
+}
+
+/** The interval in milliseconds to check whether the tracked resources are done. */
+const POLL_INTERVAL = 10;
+
+/**
+ * Tracks the asynchronous resources created by a function and its continuations with `async_hooks`, e.g. to simulate
+ * `callbackWaitsForEmptyEventLoop` and detect fire-and-forget work of a Lambda handler.
+ */
+export class AsyncResourceTracker {
+  static readonly #trackers = new Map<number, AsyncResourceTracker>();
+  static readonly #hook = createHook({
+    init: (asyncId, type, triggerAsyncId, resource) =>
+      AsyncResourceTracker.#onInit(asyncId, type, triggerAsyncId, resource),
+    destroy: (asyncId) => AsyncResourceTracker.#onDone(asyncId),
+    promiseResolve: (asyncId) => AsyncResourceTracker.#onDone(asyncId),
+  } satisfies HookCallbacks);
+
+  readonly #ids = new Set<number>();
+  readonly #outside: AsyncResource;
+  readonly #resources = new Map<number, TrackedResource>();
+  readonly #root: AsyncResource;
+
+  constructor() {
+    if (!AsyncResourceTracker.#trackers.size) {
+      AsyncResourceTracker.#hook.enable();
+    }
+
+    // created before the root is registered, so that the resources of the tracker itself are not tracked
+    this.#outside = new AsyncResource("AsyncResourceTracker");
+    this.#root = new AsyncResource("AsyncResourceTrackerRoot");
+    this.#register(this.#root.asyncId());
+  }
+
+  /** The tracked resources that are still alive. */
+  get pending(): readonly PendingAsyncResource[] {
+    return [...this.#resources.values()].map(({ type }) => ({
+      kind: AsyncResourceTracker.#getKind(type),
+      type,
+    }));
+  }
+
+  /** Runs a function, tracking the resources it creates. */
+  run<T>(fn: () => T): T {
+    return this.#root.runInAsyncScope(fn);
+  }
+
+  /**
+   * Waits until no tracked timer or handle keeps the event loop alive. Pending promises don't keep it alive.
+   * @returns `false` if aborted before then.
+   */
+  waitForEmptyEventLoop(abortSignal: AbortSignal): Promise<boolean> {
+    // polls outside of the tracked scope, so that the polling timers are not tracked
+    return this.#outside.runInAsyncScope(async () => {
+      while (!abortSignal.aborted && this.#keepsEventLoopAlive()) {
+        await setTimeout(POLL_INTERVAL);
+      }
+      return !abortSignal.aborted;
+    });
+  }
+
+  /** Stops tracking resources. */
+  dispose(): void {
+    for (const id of this.#ids) {
+      AsyncResourceTracker.#trackers.delete(id);
+    }
+    this.#ids.clear();
+    this.#resources.clear();
+    this.#root.emitDestroy();
+    this.#outside.emitDestroy();
+
+    if (!AsyncResourceTracker.#trackers.size) {
+      AsyncResourceTracker.#hook.disable();
+    }
+  }
+
+  #keepsEventLoopAlive(): boolean {
+    return [...this.#resources.values()].some(
+      ({ resource, type }) =>
+        AsyncResourceTracker.#getKind(type) !== "promise" &&
+        // e.g. unref'd timers
+        (resource as { hasRef?: () => boolean }).hasRef?.() !== false,
+    );
+  }
+
+  #register(asyncId: number): void {
+    this.#ids.add(asyncId);
+    AsyncResourceTracker.#trackers.set(asyncId, this);
+  }
+
+  static #getKind(type: string): PendingAsyncResource["kind"] {
+    switch (type) {
+      case "PROMISE":
+        return "promise";
+      case "Immediate":
+      case "Timeout":
+        return "timer";
+      default:
+        return "handle";
+    }
+  }
+
+  static #onDone(asyncId: number): void {
+    const tracker = AsyncResourceTracker.#trackers.get(asyncId);
+    if (tracker) {
+      tracker.#resources.delete(asyncId);
+    }
+  }
+
+  static #onInit(
+    asyncId: number,
+    type: string,
+    triggerAsyncId: number,
+    resource: object,
+  ): void {
+    // promises are attributed to where they're created, not to their parent promise (e.g. `.then()` of a tracked one)
+    const tracker =
+      AsyncResourceTracker.#trackers.get(executionAsyncId()) ??
+      (type !== "PROMISE"
+        ? AsyncResourceTracker.#trackers.get(triggerAsyncId)
+        : undefined);
+    if (!tracker) {
+      return;
+    }
+
+    tracker.#register(asyncId);
+    tracker.#resources.set(asyncId, { resource, type });
+  }
+}
@@ -0,0 +1,226 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+import type { Callback, Context, Handler } from "aws-lambda";
+import { require as tsxRequire } from "tsx/cjs/api";
+
+import { AsyncResourceTracker } from "./async-resource-tracker";
+import type { IsolatedContext, IsolatedOutcome } from "./isolated-invocation";
+import type { LambdaHandlerModule } from "./lambda-helper";
+
+export interface RunHandlerInput<TEvent, TResult> {
+  /** Stops waiting for the handler, e.g. on timeout. The handler keeps running in the background. */
+  readonly abortSignal?: AbortSignal;
+
+  /** The context values. */
+  readonly context: IsolatedContext;
+
+  /** The input event. */
+  readonly event: TEvent;
+
+  /** The handler to run. */
+  readonly handler: Handler<TEvent, TResult>;
+
+  /** Indicates whether to track the asynchronous resources created by the handler. */
+  readonly trackAsyncResources?: boolean;
+}
+
+/** The extensions of the TypeScript modules. */
+const TYPESCRIPT_PATTERN = /\.[cm]?ts$/;
+
+/** Loads and runs Lambda handlers, either in the current thread or in the isolated runtime. */
+export class HandlerRunner {
+  private constructor() {}
+
+  /**
+   * Loads the handler exported by a module. TypeScript modules are transpiled on the fly with `tsx`, as the CLI does,
+   * and CommonJS modules are required. The module is loaded anew for each execution environment, if specified.
+   */
+  static async load<TEvent, TResult>(
+    handlerModule: LambdaHandlerModule,
+    environmentId?: string,
+  ): Promise<Handler<TEvent, TResult>> {
+    const { handlerName = "handler", module } = handlerModule;
+    const file = HandlerRunner.resolveModule(module);
+
+    let exports: Record<string, unknown>;
+    if (TYPESCRIPT_PATTERN.test(file)) {
+      if (environmentId) {
+        // a module is evaluated again once removed from the cache
+        delete tsxRequire.cache[tsxRequire.resolve(file, import.meta.url)];
+      }
+      exports = tsxRequire(file, import.meta.url) as Record<string, unknown>;
+    } else if (HandlerRunner.#isCommonJs(file)) {
+      // `import()` would reuse the instance in the `require` cache, whatever its URL
+      const require = createRequire(import.meta.url);
+      if (environmentId) {
+        delete require.cache[file];
+      }
+      exports = require(file) as Record<string, unknown>;
+    } else {
+      const url = pathToFileURL(file);
+      if (environmentId) {
+        // a distinct URL is a distinct module instance
+        url.searchParams.set("environment", environmentId);
+      }
+      exports = (await import(url.href)) as Record<string, unknown>;
+    }
+
+    const handler = exports[handlerName];
+    if (typeof handler !== "function") {
+      throw new Error(
+        `The module '${module}' does not export a function named '${handlerName}'.`,
+      );
+    }
+
+    return handler as Handler<TEvent, TResult>;
+  }
+
+  /**
+   * Runs a handler. If tracked with `async_hooks`, the asynchronous resources it creates are reported as
+   * `pendingResources`, and a handler that returns through the callback is only settled once its timers and handles
+   * are done, unless it sets `callbackWaitsForEmptyEventLoop` of the context to `false`.
+   * @returns the outcome of the handler, or `undefined` if aborted before the handler is settled.
+   */
+  static async run<TEvent, TResult>(
+    input: RunHandlerInput<TEvent, TResult>,
+  ): Promise<IsolatedOutcome | undefined> {
+    const {
+      abortSignal,
+      context: isolatedContext,
+      event,
+      handler,
+      trackAsyncResources,
+    } = input;
+    const tracker = trackAsyncResources
+      ? new AsyncResourceTracker()
+      : undefined;
+    // stops waiting for the empty event loop once settled, e.g. when aborted
+    const abortController = new AbortController();
+
+    try {
+      const outcome = await new Promise<IsolatedOutcome | undefined>(
+        (resolve) => {
+          abortSignal?.addEventListener("abort", () => resolve(undefined), {
+            signal: abortController.signal,
+          });
+
+          // simulate callback for returning result or error
+          const callback: Callback<TResult> = (error, result) => {
+            const settle = (): void =>
+              resolve(
+                error ? { error, success: false } : { result, success: true },
+              );
+
+            // the flag is read when called, as handlers may change it
+            if (tracker && context.callbackWaitsForEmptyEventLoop) {
+              void tracker
+                .waitForEmptyEventLoop(abortController.signal)
+                .then(settle);
+            } else {
+              settle();
+            }
+          };
+          const context = HandlerRunner.#createContext(
+            isolatedContext,
+            callback,
+          );
+
+          try {
+            // invoke lambda handler, tracking the resources it creates
+            const invoke = () => handler(event, context, callback);
+            const result = tracker ? tracker.run(invoke) : invoke();
+
+            // only settle if result is a Promise
+            if (result instanceof Promise) {
+              result.then(
+                (value) => resolve({ result: value, success: true }),
+                (error) => resolve({ error, success: false }),
+              );
+            }
+          } catch (error) {
+            // handler invocation can fail
+            resolve({ error, success: false });
+          }
+        },
+      );
+
+      // the resources are read once settled, so that the ones of this method are done
+      return (
+        outcome && {
+          ...outcome,
+          ...(tracker && HandlerRunner.#getPendingResources(tracker)),
+        }
+      );
+    } finally {
+      abortController.abort();
+      tracker?.dispose();
+    }
+  }
+
+  /** Resolves a module path or `file:` URL into an absolute path. */
+  static resolveModule(module: string): string {
+    return path.resolve(
+      module.startsWith("file:") ? fileURLToPath(module) : module,
+    );
+  }
+
+  static #createContext<TResult>(
+    isolatedContext: IsolatedContext,
+    callback: Callback<TResult>,
+  ): Context {
+    const { deadline, ...context } = isolatedContext;
+
+    return {
+      ...context,
+      callbackWaitsForEmptyEventLoop: true,
+      done(error, result) {
+        callback(error, result);
+      },
+      fail(error) {
+        callback(error);
+      },
+      getRemainingTimeInMillis() {
+        return deadline - Date.now();
+      },
+      succeed(result) {
+        callback(null, result);
+      },
+    };
+  }
+
+  /** Indicates whether a JavaScript module is CommonJS, from its extension or the `type` of its package. */
+  static #isCommonJs(file: string): boolean {
+    const extension = path.extname(file);
+    if (extension !== ".js") {
+      return extension === ".cjs";
+    }
+
+    for (let directory = path.dirname(file); ; ) {
+      try {
+        const { type } = JSON.parse(
+          readFileSync(path.join(directory, "package.json"), "utf8"),
+        ) as { type?: string };
+        return type !== "module";
+      } catch {
+        // no package.json, or an invalid one, in this directory
+      }
+
+      const parent = path.dirname(directory);
+      if (parent === directory) {
+        return true;
+      }
+      directory = parent;
+    }
+  }
+
+  /** Gets the `pendingResources` of an outcome, which are omitted if there are none. */
+  static #getPendingResources(
+    tracker: AsyncResourceTracker,
+  ): Pick<IsolatedOutcome, "pendingResources"> {
+    const { pending } = tracker;
+    return pending.length ? { pendingResources: pending } : {};
+  }
+}
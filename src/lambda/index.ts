@@ -1 +1,2 @@
+export type { PendingAsyncResource } from "./async-resource-tracker";
 export * from "./lambda-helper";
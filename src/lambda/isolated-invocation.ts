@@ -0,0 +1,68 @@
+import type { Context } from "aws-lambda";
+
+import type { PendingAsyncResource } from "./async-resource-tracker";
+
+/** The values of the {@link Context} of an isolated invocation, without its methods. */
+export type IsolatedContext = Omit<
+  Context,
+  | "callbackWaitsForEmptyEventLoop"
+  | "done"
+  | "fail"
+  | "getRemainingTimeInMillis"
+  | "succeed"
+> & {
+  /** The epoch time in milliseconds at which the invocation times out. */
+  readonly deadline: number;
+};
+
+/** An invocation sent to the isolated runtime. */
+export interface IsolatedInvocation {
+  /** The context values. */
+  readonly context: IsolatedContext;
+
+  /** The input event. */
+  readonly event: unknown;
+
+  /** The name of the handler export. */
+  readonly handlerName: string;
+
+  /** The absolute path of the handler module. */
+  readonly module: string;
+
+  /** Indicates whether to track the asynchronous resources created by the handler. */
+  readonly trackAsyncResources: boolean;
+}
+
+/** The max memory used so far by an invocation, sent by the isolated runtime whenever it grows. */
+export interface IsolatedMemoryUsage {
+  /** The max growth in bytes of the RSS of the process, or of the heap of the worker. */
+  readonly maxMemoryUsed: number;
+
+  /** Distinguishes the runtime messages from others, e.g. of loaders. */
+  readonly type: typeof ISOLATED_MEMORY_TYPE;
+}
+
+/** A message sent by the isolated runtime. */
+export type IsolatedMessage = IsolatedInvocationResult | IsolatedMemoryUsage;
+
+/** The outcome of an invocation sent back by the isolated runtime. */
+export interface IsolatedInvocationResult {
+  /** The outcome of the handler. */
+  readonly outcome: IsolatedOutcome;
+
+  /** Distinguishes the runtime messages from others, e.g. of loaders. */
+  readonly type: typeof ISOLATED_RESULT_TYPE;
+}
+
+/** The outcome of an invocation. */
+export type IsolatedOutcome = (
+  | { readonly result: unknown; readonly success: true }
+  | { readonly error: unknown; readonly success: false }
+) & {
+  /** The asynchronous resources created by the handler that are still alive once it's settled, if any. */
+  readonly pendingResources?: readonly PendingAsyncResource[];
+};
+
+export const ISOLATED_MEMORY_TYPE = "aws-test-helpers:memory";
+
+export const ISOLATED_RESULT_TYPE = "aws-test-helpers:result";
@@ -0,0 +1,81 @@
+/**
+ * The entry point of a `worker_threads` worker or a child process that invokes a handler, started by
+ * `LambdaHelper.invokeLambda` with isolation. The invocation is received as `workerData` in a worker, or as the first
+ * IPC message in a child process.
+ */
+import { isMainThread, parentPort, workerData } from "node:worker_threads";
+
+import { HandlerRunner } from "./handler-runner";
+import {
+  ISOLATED_MEMORY_TYPE,
+  ISOLATED_RESULT_TYPE,
+  type IsolatedInvocation,
+  type IsolatedMessage,
+  type IsolatedOutcome,
+} from "./isolated-invocation";
+
+/** The interval in milliseconds to sample the memory used by the invocation. */
+const MEMORY_SAMPLING_INTERVAL = 10;
+
+const post = (payload: IsolatedMessage): void => {
+  if (isMainThread) {
+    process.send!(payload);
+  } else {
+    parentPort!.postMessage(payload);
+  }
+};
+const send = (outcome: IsolatedOutcome): void => {
+  try {
+    post({ outcome, type: ISOLATED_RESULT_TYPE });
+  } catch (error) {
+    // e.g. a result that cannot be cloned
+    post({
+      outcome: {
+        error: new Error(`The handler outcome cannot be sent: ${error}`),
+        success: false,
+      },
+      type: ISOLATED_RESULT_TYPE,
+    });
+  }
+};
+
+const invocation: Promise<IsolatedInvocation> = isMainThread
+  ? new Promise((resolve) => process.once("message", resolve))
+  : Promise.resolve(workerData as IsolatedInvocation);
+
+// the RSS is shared by the threads of a process, so the heap is sampled in a worker
+const getMemoryUsed = (): number => {
+  const { heapUsed, rss } = process.memoryUsage();
+  return isMainThread ? rss : heapUsed;
+};
+const baseline = getMemoryUsed();
+let maxMemoryUsed = 0;
+const sampleMemory = (): void => {
+  const used = getMemoryUsed() - baseline;
+  if (used > maxMemoryUsed) {
+    maxMemoryUsed = used;
+    post({ maxMemoryUsed, type: ISOLATED_MEMORY_TYPE });
+  }
+};
+const samplingId = setInterval(sampleMemory, MEMORY_SAMPLING_INTERVAL).unref();
+
+void invocation.then(async (input) => {
+  const { context, event, handlerName, module, trackAsyncResources } = input;
+  let outcome: IsolatedOutcome;
+  try {
+    const handler = await HandlerRunner.load({ handlerName, module });
+    // the parent stops the runtime on timeout
+    outcome = (await HandlerRunner.run({
+      context,
+      event,
+      handler,
+      trackAsyncResources,
+    }))!;
+  } catch (error) {
+    outcome = { error, success: false };
+  }
+
+  clearInterval(samplingId);
+  sampleMemory();
+  send(outcome);
+});
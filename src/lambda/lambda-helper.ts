@@ -1,6 +1,52 @@
-import { randomUUID } from "node:crypto";
+import { spawn } from "node:child_process";
+import { randomBytes, randomUUID } from "node:crypto";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
 
-import type { Callback, Context, Handler } from "aws-lambda";
+import type { Context, Handler } from "aws-lambda";
+
+import type { Logger } from "../logger";
+import type { PendingAsyncResource } from "./async-resource-tracker";
+import { HandlerRunner } from "./handler-runner";
+import {
+  ISOLATED_MEMORY_TYPE,
+  ISOLATED_RESULT_TYPE,
+  type IsolatedContext,
+  type IsolatedInvocation,
+  type IsolatedMessage,
+  type IsolatedOutcome,
+} from "./isolated-invocation";
+
+export interface CreateRuntimeInput
+  extends Pick<
+    InvokeLambdaInput<unknown, unknown>,
+    | "context"
+    | "environmentVariables"
+    | "logger"
+    | "timeout"
+    | "trackAsyncResources"
+  > {
+  /**
+   * The module that exports the Lambda handler. It's loaded anew for each execution environment, so that its
+   * module-scope init code runs on each cold start. The modules it imports are shared by the environments.
+   */
+  readonly handlerModule: LambdaHandlerModule;
+
+  /**
+   * The timeout in seconds of the init phase, i.e. of loading the handler module. It fails the invocation with a
+   * `Runtime.InitError` once elapsed, as Lambda does.
+   * @default 10
+   */
+  readonly initTimeout?: number;
+
+  /**
+   * The max number of execution environments. Invocations wait for an environment to be available once reached.
+   * @default Infinity
+   */
+  readonly maxConcurrency?: number;
+}
 
 export interface InvokeLambdaInput<TEvent, TResult> {
   /**
@@ -22,14 +68,95 @@ export interface InvokeLambdaInput<TEvent, TResult> {
     >
   >;
 
-  /** The input event to the Lambda handler. */
+  /**
+   * The environment variables of the function. They are set during the invocation along with the ones of the Lambda
+   * runtime, e.g. `AWS_LAMBDA_FUNCTION_NAME` from the `context` or `_X_AMZN_TRACE_ID` generated for each invocation,
+   * which cannot be overridden. Without isolation, `process.env` is restored once the invocation is settled.
+   */
+  readonly environmentVariables?: Readonly<Record<string, string>>;
+
+  /** The input event to the Lambda handler. It must be serializable with the structured clone algorithm if isolated. */
   readonly event: TEvent;
 
-  /** The Lambda handler to execute. */
-  readonly handler: Handler<TEvent, TResult>;
+  /** The Lambda handler to execute, or the module that exports it. A module is required by the `isolation` modes. */
+  readonly handler: Handler<TEvent, TResult> | LambdaHandlerModule;
+
+  /**
+   * Where the Lambda handler is executed:
+   * - `none`: in the current thread. A handler that times out keeps running in the background.
+   * - `process`: in a child process, which is killed on timeout. The `memoryLimitInMB` of the `context` limits the
+   *   size of its heap.
+   * - `worker`: in a `worker_threads` worker, which is terminated on timeout. The `memoryLimitInMB` of the `context`
+   *   limits the size of its heap.
+   *
+   * A new worker or process is created per invocation. The result and error must be serializable with the structured
+   * clone algorithm.
+   * @default "none"
+   */
+  readonly isolation?: LambdaIsolation;
+
+  /** Logs the `START`, `END` and `REPORT` lines of the invocation in the CloudWatch text format, if specified. */
+  readonly logger?: Logger;
 
   /** The timeout of the lambda function in seconds. */
   readonly timeout: number;
+
+  /**
+   * Indicates whether to track the asynchronous resources created by the handler with `async_hooks`, which slows down
+   * the whole process during the invocation:
+   * - a handler that returns through the callback is only settled once its timers and handles are done, unless it sets
+   *   `callbackWaitsForEmptyEventLoop` of the context to `false`;
+   * - the resources still alive once the handler is settled are reported as `pendingResources`.
+   *
+   * Otherwise, the handler is settled as soon as it returns, whatever `callbackWaitsForEmptyEventLoop`.
+   * @default false
+   */
+  readonly trackAsyncResources?: boolean;
+}
+
+/**
+ * The kind of failure of a Lambda handler execution:
+ * - `crash`: the worker or process running the handler exited unexpectedly, e.g. due to an uncaught exception.
+ * - `error`: the handler returned an error.
+ * - `init`: the handler module of a {@link LambdaRuntime} failed to load, with a `Runtime.InitError` error.
+ * - `out-of-memory`: the worker or process running the handler exceeded the `memoryLimitInMB` of the context.
+ * - `timeout`: the handler did not finish within the timeout.
+ */
+export type InvokeLambdaFailureKind =
+  | "crash"
+  | "error"
+  | "init"
+  | "out-of-memory"
+  | "timeout";
+
+/**
+ * The metrics of an invocation, as in its `REPORT` line.
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/nodejs-logging.html
+ */
+export interface InvokeLambdaReport {
+  /** The billed duration in milliseconds, i.e. the duration rounded up to the next millisecond. */
+  readonly billedDuration: number;
+
+  /**
+   * The duration in milliseconds of the invocation. With isolation, it includes starting the worker or process and
+   * loading the handler module.
+   */
+  readonly duration: number;
+
+  /** The duration in milliseconds of the init phase, on the cold starts of a {@link LambdaRuntime}. */
+  readonly initDuration?: number;
+
+  /**
+   * The max memory used in MB, sampled as the growth of the RSS during the invocation, or of the heap in a worker.
+   * It's the memory size on out-of-memory failures.
+   */
+  readonly maxMemoryUsed: number;
+
+  /** The memory size in MB, i.e. the `memoryLimitInMB` of the context, or 128 if it's not a number. */
+  readonly memorySize: number;
+
+  /** The request ID, i.e. the `awsRequestId` of the context. */
+  readonly requestId: string;
 }
 
 export type InvokeLambdaOutput<TResult> =
@@ -37,6 +164,12 @@ export type InvokeLambdaOutput<TResult> =
   | FailedInvokeLambdaOutput;
 
 export interface SuccessfulInvokeLambdaOutput<TResult> {
+  /** The asynchronous resources created by the Lambda handler that are still alive after it returned, if any. */
+  readonly pendingResources?: readonly PendingAsyncResource[];
+
+  /** The metrics of the invocation. */
+  readonly report: InvokeLambdaReport;
+
   /** The result of the Lambda handler. */
   readonly result: TResult | undefined;
 
@@ -45,9 +178,21 @@ export interface SuccessfulInvokeLambdaOutput<TResult> {
 }
 
 export interface FailedInvokeLambdaOutput {
-  /** The error thrown by the Lambda handler. */
+  /** The error thrown by the Lambda handler, or the cause of a crash or out-of-memory failure. */
   readonly error: unknown;
 
+  /** The kind of failure. */
+  readonly kind: InvokeLambdaFailureKind;
+
+  /**
+   * The asynchronous resources created by the Lambda handler that are still alive after it returned an error, if any.
+   * They are not reported on timeout.
+   */
+  readonly pendingResources?: readonly PendingAsyncResource[];
+
+  /** The metrics of the invocation. */
+  readonly report: InvokeLambdaReport;
+
   /** Indicates that the Lambda handler executed with an error. */
   readonly success: false;
 
@@ -55,101 +200,613 @@ export interface FailedInvokeLambdaOutput {
   readonly timeout: boolean;
 }
 
+/** A module that exports a Lambda handler. */
+export interface LambdaHandlerModule {
+  /**
+   * The name of the handler export.
+   * @default "handler"
+   */
+  readonly handlerName?: string;
+
+  /**
+   * The path of the module or its `file:` URL, relative paths are resolved from the current working directory.
+   * TypeScript modules are loaded with `tsx`.
+   */
+  readonly module: string;
+}
+
+/** Where a Lambda handler is executed. See {@link InvokeLambdaInput.isolation}. */
+export type LambdaIsolation = "none" | "process" | "worker";
+
+/**
+ * A simulated Lambda function created by {@link LambdaHelper.createRuntime}, which reuses warm execution environments
+ * across invocations.
+ */
+export interface LambdaRuntime<TEvent, TResult> {
+  /** The number of execution environments, either idle or busy. */
+  readonly environments: number;
+
+  /** Invokes the handler in an idle execution environment, or in a new one (cold start) if there is none. */
+  invoke(
+    input: RuntimeInvokeInput<TEvent>,
+  ): Promise<RuntimeInvokeOutput<TResult>>;
+}
+
+export interface RuntimeInvokeInput<TEvent> {
+  /**
+   * Indicates whether to invoke the handler in a new execution environment, even if there is an idle one.
+   * @default false
+   */
+  readonly coldStart?: boolean;
+
+  /** Overrides the context of the runtime for this invocation. */
+  readonly context?: InvokeLambdaInput<TEvent, unknown>["context"];
+
+  /** The input event to the Lambda handler. */
+  readonly event: TEvent;
+}
+
+export type RuntimeInvokeOutput<TResult> = InvokeLambdaOutput<TResult> & {
+  /** Indicates whether the handler was invoked in a new execution environment. */
+  readonly coldStart: boolean;
+
+  /** The ID of the execution environment. */
+  readonly environmentId: string;
+};
+
+/** The output of an invocation before its report, with the max memory it used in bytes. */
+interface InvocationOutcome<TResult> {
+  readonly maxMemoryUsed: number;
+  readonly output:
+    | Omit<SuccessfulInvokeLambdaOutput<TResult>, "report">
+    | Omit<FailedInvokeLambdaOutput, "report">;
+}
+
+/** A simulated execution environment of a {@link LambdaRuntime}. */
+interface RuntimeEnvironment<TEvent, TResult> {
+  /** The handler loaded by the environment. */
+  readonly handler: Handler<TEvent, TResult>;
+
+  /** The environment ID. */
+  readonly id: string;
+}
+
+/** The timeout in seconds of the init phase of a Lambda function. */
+const DEFAULT_INIT_TIMEOUT = 10;
+
+/** The memory size in MB of a Lambda function by default. */
+const DEFAULT_MEMORY_SIZE = 128;
+
+/** The interval in milliseconds to sample the memory used by an invocation. */
+const MEMORY_SAMPLING_INTERVAL = 10;
+
+/**
+ * The entry point of the isolated runtime, next to this module with the same extension: a built module, or the
+ * TypeScript source, e.g. in tests.
+ */
+const ISOLATED_RUNTIME_PATH = fileURLToPath(
+  new URL(
+    `isolated-runtime${path.extname(fileURLToPath(import.meta.url))}`,
+    import.meta.url,
+  ),
+);
+
 /** Provides utility methods for AWS Lambda. */
 export class LambdaHelper {
+  /** The environment variables of the invocations in progress in the current thread, in order. */
+  static readonly #activeVariables: Readonly<Record<string, string>>[] = [];
+
+  /** The values of the environment variables before they were set by the invocations in progress. */
+  static #originalVariables: Record<string, string | undefined> = {};
+
   private constructor() {}
 
-  /** Simulates the invocation of a Lambda function. */
-  static async invokeLambda<TEvent, TResult>(
-    input: InvokeLambdaInput<TEvent, TResult>,
-  ): Promise<InvokeLambdaOutput<TResult>> {
-    const { event, handler, timeout } = input;
-
-    // callbacks to resolve/reject promise below
-    let resolve!: (result: TResult | undefined) => void;
-    let reject!: (error: unknown) => void;
-
-    let promiseSettled = false;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-    // promise with idempotent resolve/reject
-    const promise = new Promise<TResult | undefined>(
-      (innerResolve, innerReject) => {
-        resolve = (result) => {
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
+  /**
+   * Creates a simulated Lambda function, which loads its handler module in execution environments that are reused
+   * across invocations. Like in Lambda, an environment is discarded once an invocation times out, and a module that
+   * fails to load fails the invocation with a `Runtime.InitError`.
+   */
+  static createRuntime<TEvent, TResult>(
+    input: CreateRuntimeInput,
+  ): LambdaRuntime<TEvent, TResult> {
+    const {
+      handlerModule,
+      initTimeout = DEFAULT_INIT_TIMEOUT,
+      maxConcurrency = Infinity,
+      timeout,
+    } = input;
+    if (maxConcurrency < 1) {
+      throw new Error("Maximum concurrency must be equal or greater than 1.");
+    }
+    // throws on reserved environment variables before any environment is reserved
+    LambdaHelper.#createEnvironmentVariables(input);
 
-          if (!promiseSettled) {
-            innerResolve(result);
-            promiseSettled = true;
-          }
-        };
-        reject = (error) => {
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
+    const idle: RuntimeEnvironment<TEvent, TResult>[] = [];
+    // resolved when an environment is released, in order
+    const waiters: (() => void)[] = [];
+    let environments = 0;
 
-          if (!promiseSettled) {
-            innerReject(error);
-            promiseSettled = true;
+    // gets an idle environment, or reserves a slot for a new one
+    const acquire = async (
+      coldStart: boolean,
+    ): Promise<RuntimeEnvironment<TEvent, TResult> | undefined> => {
+      for (;;) {
+        if (!coldStart && idle.length) {
+          return idle.pop();
+        }
+        if (environments < maxConcurrency) {
+          environments++;
+          return undefined;
+        }
+        if (idle.length) {
+          // replace the least recently used environment
+          idle.shift();
+          return undefined;
+        }
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+    };
+    // makes an environment idle, or discards it
+    const release = (environment?: RuntimeEnvironment<TEvent, TResult>) => {
+      if (environment) {
+        idle.push(environment);
+      } else {
+        environments--;
+      }
+      waiters.shift()?.();
+    };
+
+    return {
+      get environments() {
+        return environments;
+      },
+      invoke: async ({ coldStart = false, context, event }) => {
+        let environment = await acquire(coldStart);
+        const warm = environment !== undefined;
+        let initDuration: number | undefined;
+        let initError: Error | undefined;
+
+        if (!environment) {
+          const id = randomUUID();
+          const start = performance.now();
+          let initTimeoutId: ReturnType<typeof setTimeout> | undefined;
+          try {
+            // the init code sees the environment variables, except the ones of a request
+            environment = {
+              handler: await LambdaHelper.#withEnvironmentVariables(
+                LambdaHelper.#createEnvironmentVariables(input),
+                () =>
+                  Promise.race([
+                    HandlerRunner.load<TEvent, TResult>(handlerModule, id),
+                    new Promise<never>((_, reject) => {
+                      initTimeoutId = setTimeout(
+                        () =>
+                          reject(
+                            new Error(
+                              `The init phase timed out after ${initTimeout} seconds.`,
+                            ),
+                          ),
+                        initTimeout * 1000,
+                      );
+                    }),
+                  ]),
+              ),
+              id,
+            };
+          } catch (cause) {
+            const error = new Error(
+              `The handler module failed to initialize: ${cause}`,
+              { cause },
+            );
+            error.name = "Runtime.InitError";
+            initError = error;
+            // the invocation fails with the init error, so that it's reported like the others
+            environment = {
+              handler: () => {
+                throw error;
+              },
+              id,
+            };
+          } finally {
+            clearTimeout(initTimeoutId);
           }
+          initDuration = performance.now() - start;
+        }
+
+        let output: InvokeLambdaOutput<TResult> | undefined;
+        try {
+          output = await LambdaHelper.#invoke(
+            {
+              context: { ...input.context, ...context },
+              environmentVariables: input.environmentVariables,
+              event,
+              handler: environment.handler,
+              logger: input.logger,
+              timeout,
+              trackAsyncResources: input.trackAsyncResources,
+            },
+            initDuration,
+          );
+        } finally {
+          // the environment is reset after an init error, a timeout or a failed invocation
+          release(
+            !output || initError || (!output.success && output.timeout)
+              ? undefined
+              : environment,
+          );
+        }
+
+        return {
+          ...output,
+          coldStart: !warm,
+          environmentId: environment.id,
+          ...(initError && { kind: "init" as const }),
         };
       },
-    );
+    };
+  }
 
-    // simulate callback for returning result or error
-    const callback: Callback<TResult> = (error, result) => {
-      if (error) {
-        reject(error);
-      } else {
-        resolve(result);
-      }
+  /**
+   * Simulates the invocation of a Lambda function.
+   *
+   * With `trackAsyncResources`, the asynchronous resources created by the handler are tracked with `async_hooks`, in
+   * the worker or child process if isolated: a handler that returns through the callback is only settled once its
+   * timers and handles are done, unless it sets `callbackWaitsForEmptyEventLoop` of the context to `false`. The
+   * resources still alive once the handler is settled are reported as `pendingResources`.
+   */
+  static async invokeLambda<TEvent, TResult>(
+    input: InvokeLambdaInput<TEvent, TResult>,
+  ): Promise<InvokeLambdaOutput<TResult>> {
+    return await LambdaHelper.#invoke(input);
+  }
+
+  /** Invokes a handler and reports the invocation, with the duration of its init phase if it's a cold start. */
+  static async #invoke<TEvent, TResult>(
+    input: InvokeLambdaInput<TEvent, TResult>,
+    initDuration?: number,
+  ): Promise<InvokeLambdaOutput<TResult>> {
+    const { isolation = "none", logger } = input;
+    const context = LambdaHelper.#createIsolatedContext(input);
+    const { awsRequestId: requestId, functionVersion } = context;
+    const variables = {
+      ...LambdaHelper.#createEnvironmentVariables(input),
+      _X_AMZN_TRACE_ID: LambdaHelper.#createTraceId(),
+    };
+
+    logger?.info(`START RequestId: ${requestId} Version: ${functionVersion}`);
+    const start = performance.now();
+    const { maxMemoryUsed, output } =
+      isolation !== "none"
+        ? await LambdaHelper.#invokeIsolated(
+            input,
+            isolation,
+            context,
+            variables,
+          )
+        : await LambdaHelper.#withEnvironmentVariables(variables, () =>
+            LambdaHelper.#invokeInThread(input, context),
+          );
+    const duration = performance.now() - start;
+
+    const memorySize =
+      LambdaHelper.#getMemorySize(context) ?? DEFAULT_MEMORY_SIZE;
+    const report: InvokeLambdaReport = {
+      billedDuration: Math.ceil(duration),
+      duration,
+      ...(initDuration !== undefined && { initDuration }),
+      maxMemoryUsed:
+        !output.success && output.kind === "out-of-memory"
+          ? memorySize
+          : Math.ceil(maxMemoryUsed / 1024 / 1024),
+      memorySize,
+      requestId,
     };
+    logger?.info(`END RequestId: ${requestId}`);
+    logger?.info(LambdaHelper.#formatReport(report));
+
+    return { ...output, report };
+  }
+
+  /** Invokes a handler in the current thread. */
+  static async #invokeInThread<TEvent, TResult>(
+    input: InvokeLambdaInput<TEvent, TResult>,
+    context: IsolatedContext,
+  ): Promise<InvocationOutcome<TResult>> {
+    const { event, timeout, trackAsyncResources } = input;
+
+    const handler =
+      typeof input.handler === "function"
+        ? input.handler
+        : await HandlerRunner.load<TEvent, TResult>(input.handler);
 
     // simulate lambda function timeout
-    timeoutId = setTimeout(() => {
-      timeoutId = null;
-      reject("lambda-helper-timeout");
-    }, timeout * 1000);
+    const abortController = new AbortController();
+    const timeoutId = setTimeout(() => abortController.abort(), timeout * 1000);
 
-    try {
-      // invoke lambda handler
-      const result = handler(
-        event,
-        LambdaHelper.#createContext(input, callback),
-        callback,
+    const stopSampling = LambdaHelper.#sampleMemory();
+    const outcome = await HandlerRunner.run({
+      abortSignal: abortController.signal,
+      context,
+      event,
+      handler,
+      trackAsyncResources,
+    });
+    clearTimeout(timeoutId);
+
+    return {
+      maxMemoryUsed: stopSampling(),
+      // the handler is still running on timeout
+      output: outcome
+        ? LambdaHelper.#createOutput(outcome)
+        : { error: undefined, kind: "timeout", success: false, timeout: true },
+    };
+  }
+
+  /** Creates the output of a settled invocation from the outcome of its handler. */
+  static #createOutput<TResult>(
+    outcome: IsolatedOutcome,
+  ): InvocationOutcome<TResult>["output"] {
+    return outcome.success
+      ? { ...outcome, result: outcome.result as TResult | undefined }
+      : { ...outcome, kind: "error", timeout: false };
+  }
+
+  /** Formats the `REPORT` line of an invocation. */
+  static #formatReport(report: InvokeLambdaReport): string {
+    const {
+      billedDuration,
+      duration,
+      initDuration,
+      maxMemoryUsed,
+      memorySize,
+      requestId,
+    } = report;
+
+    return [
+      `REPORT RequestId: ${requestId}`,
+      `Duration: ${duration.toFixed(2)} ms`,
+      `Billed Duration: ${billedDuration} ms`,
+      `Memory Size: ${memorySize} MB`,
+      `Max Memory Used: ${maxMemoryUsed} MB`,
+      ...(initDuration !== undefined
+        ? [`Init Duration: ${initDuration.toFixed(2)} ms`]
+        : []),
+    ].join("\t");
+  }
+
+  /** Gets the memory size in MB from the `memoryLimitInMB` of a context, if it's a positive integer. */
+  static #getMemorySize(context: IsolatedContext): number | undefined {
+    const memorySize = Number(context.memoryLimitInMB);
+    return Number.isInteger(memorySize) && memorySize > 0
+      ? memorySize
+      : undefined;
+  }
+
+  /** Samples the RSS of the current process until stopped, which returns its max growth in bytes. */
+  static #sampleMemory(): () => number {
+    const baseline = process.memoryUsage.rss();
+    let maxMemoryUsed = 0;
+    const sample = (): void => {
+      maxMemoryUsed = Math.max(
+        maxMemoryUsed,
+        process.memoryUsage.rss() - baseline,
       );
+    };
+    const intervalId = setInterval(sample, MEMORY_SAMPLING_INTERVAL).unref();
+
+    return () => {
+      clearInterval(intervalId);
+      sample();
+      return maxMemoryUsed;
+    };
+  }
 
-      // only reject/resolve if result is a Promise
-      if (result instanceof Promise) {
-        result.then(resolve, reject);
+  /**
+   * Sets environment variables while running a function, then restores them. Overlapping calls are restored in any
+   * order: the variables of the calls still running are kept.
+   */
+  static async #withEnvironmentVariables<T>(
+    variables: Readonly<Record<string, string>>,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const active = LambdaHelper.#activeVariables;
+    const originals = LambdaHelper.#originalVariables;
+    for (const name of Object.keys(variables)) {
+      if (!(name in originals)) {
+        originals[name] = process.env[name];
       }
-    } catch (error) {
-      // handler invocation can fail
-      reject(error);
     }
+    active.push(variables);
+    Object.assign(process.env, variables);
 
     try {
-      return {
-        result: await promise,
-        success: true,
+      return await fn();
+    } finally {
+      active.splice(active.indexOf(variables), 1);
+      for (const name of Object.keys(variables)) {
+        const original = originals[name];
+        if (original === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = original;
+        }
+      }
+      for (const other of active) {
+        Object.assign(process.env, other);
+      }
+      if (!active.length) {
+        LambdaHelper.#originalVariables = {};
+      }
+    }
+  }
+
+  /** Invokes a handler module in a worker or child process, which is stopped once the invocation is settled. */
+  static async #invokeIsolated<TEvent, TResult>(
+    input: InvokeLambdaInput<TEvent, TResult>,
+    isolation: Exclude<LambdaIsolation, "none">,
+    context: IsolatedContext,
+    variables: Readonly<Record<string, string>>,
+  ): Promise<InvocationOutcome<TResult>> {
+    const { event, handler, timeout, trackAsyncResources = false } = input;
+    if (typeof handler === "function") {
+      throw new Error(
+        `The '${isolation}' isolation requires a handler module instead of a function.`,
+      );
+    }
+
+    const { handlerName = "handler", module } = handler;
+    const maxHeapSize = LambdaHelper.#getMemorySize(context);
+    const invocation: IsolatedInvocation = {
+      context,
+      event,
+      handlerName,
+      module: HandlerRunner.resolveModule(module),
+      trackAsyncResources,
+    };
+    // the TypeScript source is started with `tsx`
+    const typescript = ISOLATED_RUNTIME_PATH.endsWith(".ts");
+    const bootstrap = `require(${JSON.stringify(
+      createRequire(import.meta.url).resolve("tsx/cjs/api"),
+    )}).require(${JSON.stringify(ISOLATED_RUNTIME_PATH)}, ${JSON.stringify(ISOLATED_RUNTIME_PATH)});`;
+
+    return await new Promise((resolve) => {
+      let stop: () => unknown = () => {};
+      let settled = false;
+      let maxMemoryUsed = 0;
+      const settle = (output: InvocationOutcome<TResult>["output"]): void => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeoutId);
+          void stop();
+          resolve({ maxMemoryUsed, output });
+        }
       };
-    } catch (error) {
-      return {
-        error: error !== "lambda-helper-timeout" ? error : undefined,
-        success: false,
-        timeout: error === "lambda-helper-timeout",
+      const fail = (kind: InvokeLambdaFailureKind, error: unknown): void =>
+        settle({ error, kind, success: false, timeout: kind === "timeout" });
+      const onMessage = (message: IsolatedMessage): void => {
+        if (message?.type === ISOLATED_MEMORY_TYPE) {
+          maxMemoryUsed = message.maxMemoryUsed;
+          return;
+        }
+        if (message?.type !== ISOLATED_RESULT_TYPE) {
+          return;
+        }
+
+        settle(LambdaHelper.#createOutput(message.outcome));
       };
+
+      // simulate lambda function timeout
+      const timeoutId = setTimeout(
+        () => fail("timeout", undefined),
+        timeout * 1000,
+      );
+
+      if (isolation === "worker") {
+        const worker = new Worker(
+          typescript ? bootstrap : ISOLATED_RUNTIME_PATH,
+          {
+            env: { ...process.env, ...variables },
+            eval: typescript,
+            resourceLimits: maxHeapSize
+              ? { maxOldGenerationSizeMb: maxHeapSize }
+              : undefined,
+            workerData: invocation,
+          },
+        );
+        stop = () => worker.terminate();
+        worker.on("message", onMessage);
+        worker.on("error", (error: Error & { code?: string }) =>
+          fail(
+            error.code === "ERR_WORKER_OUT_OF_MEMORY"
+              ? "out-of-memory"
+              : "crash",
+            error,
+          ),
+        );
+        worker.on("exit", (code) =>
+          fail("crash", new Error(`The worker exited with code ${code}.`)),
+        );
+      } else {
+        const child = spawn(
+          process.execPath,
+          [
+            ...(maxHeapSize ? [`--max-old-space-size=${maxHeapSize}`] : []),
+            ...(typescript ? ["--eval", bootstrap] : [ISOLATED_RUNTIME_PATH]),
+          ],
+          {
+            env: { ...process.env, ...variables },
+            serialization: "advanced",
+            stdio: ["ignore", "inherit", "inherit", "ipc"],
+          },
+        );
+        stop = () => child.kill("SIGKILL");
+        child.on("message", onMessage);
+        child.on("error", (error) => fail("crash", error));
+        child.on("exit", (code, signal) =>
+          fail(
+            // V8 aborts the process when the heap limit is reached
+            signal === "SIGABRT" ? "out-of-memory" : "crash",
+            new Error(
+              `The process exited with ${signal ? `signal ${signal}` : `code ${code}`}.`,
+            ),
+          ),
+        );
+        child.send(invocation);
+      }
+    });
+  }
+
+  /**
+   * Creates the environment variables of an invocation: the ones of the function and of the Lambda runtime.
+   * @see https://docs.aws.amazon.com/lambda/latest/dg/configuration-envvars.html#configuration-envvars-runtime
+   */
+  static #createEnvironmentVariables(
+    input: Pick<
+      InvokeLambdaInput<unknown, unknown>,
+      "context" | "environmentVariables" | "timeout"
+    >,
+  ): Record<string, string> {
+    const { environmentVariables = {} } = input;
+    const context = LambdaHelper.#createIsolatedContext(input);
+    const { functionName, functionVersion, logGroupName, logStreamName } =
+      context;
+    const runtimeVariables: Record<string, string> = {
+      AWS_EXECUTION_ENV: `AWS_Lambda_nodejs${process.versions.node.split(".")[0]}.x`,
+      AWS_LAMBDA_FUNCTION_MEMORY_SIZE: String(
+        LambdaHelper.#getMemorySize(context) ?? DEFAULT_MEMORY_SIZE,
+      ),
+      AWS_LAMBDA_FUNCTION_NAME: functionName,
+      AWS_LAMBDA_FUNCTION_VERSION: functionVersion,
+      AWS_LAMBDA_LOG_GROUP_NAME: logGroupName,
+      AWS_LAMBDA_LOG_STREAM_NAME: logStreamName,
+      LAMBDA_TASK_ROOT: process.cwd(),
+    };
+
+    const reserved = Object.keys(environmentVariables).filter(
+      (name) => name in runtimeVariables || name === "_X_AMZN_TRACE_ID",
+    );
+    if (reserved.length) {
+      throw new Error(
+        `Reserved environment variables cannot be set: ${reserved.join(", ")}.`,
+      );
     }
+
+    return { ...environmentVariables, ...runtimeVariables };
   }
 
-  static #createContext<TEvent, TResult>(
-    input: InvokeLambdaInput<TEvent, TResult>,
-    callback: Callback<TResult>,
-  ): Context {
+  /**
+   * Creates an X-Ray trace header, as `_X_AMZN_TRACE_ID` for a request.
+   * @see https://docs.aws.amazon.com/xray/latest/devguide/xray-concepts.html#xray-concepts-tracingheader
+   */
+  static #createTraceId(): string {
+    const epoch = Math.floor(Date.now() / 1000).toString(16);
+    return `Root=1-${epoch}-${randomBytes(12).toString("hex")};Parent=${randomBytes(8).toString("hex")};Sampled=0`;
+  }
+
+  /** Creates the values of the {@link Context}, which can be sent to a worker or child process. */
+  static #createIsolatedContext(
+    input: Pick<InvokeLambdaInput<unknown, unknown>, "context" | "timeout">,
+  ): IsolatedContext {
     const { context = {}, timeout } = input;
     const {
       awsRequestId,
@@ -163,32 +820,17 @@ export class LambdaHelper {
       memoryLimitInMB,
     } = context;
 
-    const now = Date.now();
     return {
       awsRequestId: awsRequestId ?? randomUUID(),
-      callbackWaitsForEmptyEventLoop: true,
       clientContext,
-      done(error, result) {
-        callback(error, result);
-      },
-      fail(error) {
-        callback(error);
-      },
+      deadline: Date.now() + timeout * 1000,
       functionName: functionName ?? "placeholder",
       functionVersion: functionVersion ?? "placeholder",
-      getRemainingTimeInMillis() {
-        const elapsed = Date.now() - now;
-        const timeoutInMs = timeout * 1000;
-        return timeoutInMs - elapsed;
-      },
       identity,
       invokedFunctionArn: invokedFunctionArn ?? "placeholder",
       logGroupName: logGroupName ?? "placeholder",
       logStreamName: logStreamName ?? "placeholder",
       memoryLimitInMB: memoryLimitInMB ?? "placeholder",
-      succeed(result) {
-        callback(null, result);
-      },
     };
   }
 }
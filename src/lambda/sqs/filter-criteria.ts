@@ -0,0 +1,240 @@
+import type { SQSRecord } from "aws-lambda";
+
+/**
+ * The filter criteria of an event source mapping. A record matches if it matches any of the filter patterns.
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/invocation-eventfiltering.html
+ */
+export interface FilterCriteria {
+  /** The filters. */
+  readonly Filters: readonly {
+    /** The filter pattern in JSON format, e.g. `{ "body": { "type": ["order"] } }`. */
+    readonly Pattern: string;
+  }[];
+}
+
+/** A parsed filter pattern: the keys are matched against fields, and the arrays against leaf values. */
+type FilterPattern = { readonly [key: string]: FilterPattern | FilterRules };
+
+/** The rules of a field, it matches if any of them matches. */
+type FilterRules = readonly unknown[];
+
+/** The comparison operators of `numeric` rules. */
+const NUMERIC_OPERATORS = {
+  "<": (a: number, b: number) => a < b,
+  "<=": (a: number, b: number) => a <= b,
+  "=": (a: number, b: number) => a === b,
+  ">": (a: number, b: number) => a > b,
+  ">=": (a: number, b: number) => a >= b,
+} as const;
+
+/**
+ * Matches {@link SQSRecord} instances against {@link FilterCriteria} as event source mappings do.
+ * The supported rules are exact values, `prefix`, `suffix`, `equals-ignore-case`, `numeric`, `exists` and
+ * `anything-but`. The `body` is matched as JSON if it's a JSON object, or as a plain string otherwise.
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/invocation-eventfiltering.html#filtering-syntax
+ */
+export class FilterCriteriaMatcher {
+  readonly #patterns: readonly FilterPattern[];
+
+  /** @throws {Error} if a filter pattern is invalid. */
+  constructor(filterCriteria: FilterCriteria) {
+    this.#patterns = filterCriteria.Filters.map(({ Pattern }) => {
+      let pattern: unknown;
+      try {
+        pattern = JSON.parse(Pattern);
+      } catch (error) {
+        throw new Error(`Invalid filter pattern: ${Pattern}`, {
+          cause: error,
+        });
+      }
+
+      FilterCriteriaMatcher.#validatePattern(pattern, Pattern);
+      return pattern;
+    });
+  }
+
+  /** Indicates whether a record matches any of the filter patterns. */
+  matches(record: SQSRecord): boolean {
+    const value = {
+      ...record,
+      body: FilterCriteriaMatcher.#parseBody(record.body),
+    };
+
+    return this.#patterns.some((pattern) =>
+      FilterCriteriaMatcher.#matchPattern(pattern, value),
+    );
+  }
+
+  /** Parses a JSON object body, other bodies are matched as plain strings. */
+  static #parseBody(body: string): unknown {
+    try {
+      const parsed: unknown = JSON.parse(body);
+      return typeof parsed === "object" && parsed && !Array.isArray(parsed)
+        ? parsed
+        : body;
+    } catch {
+      return body;
+    }
+  }
+
+  static #matchPattern(pattern: FilterPattern, value: unknown): boolean {
+    return Object.entries(pattern).every(([key, rules]) => {
+      const field =
+        typeof value === "object" && value && !Array.isArray(value)
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+
+      return Array.isArray(rules)
+        ? FilterCriteriaMatcher.#matchRules(rules, field)
+        : FilterCriteriaMatcher.#matchPattern(rules as FilterPattern, field);
+    });
+  }
+
+  static #matchRules(rules: FilterRules, field: unknown): boolean {
+    // array fields match if any of their values matches
+    const values = Array.isArray(field) ? field : [field];
+
+    return rules.some((rule) => {
+      if (FilterCriteriaMatcher.#isOperator(rule, "exists")) {
+        return rule.exists === (field !== undefined);
+      }
+
+      return values.some(
+        (value) =>
+          value !== undefined && FilterCriteriaMatcher.#matchRule(rule, value),
+      );
+    });
+  }
+
+  static #matchRule(rule: unknown, value: unknown): boolean {
+    switch (true) {
+      case FilterCriteriaMatcher.#isOperator(rule, "prefix"):
+        return (
+          typeof value === "string" && value.startsWith(rule.prefix as string)
+        );
+
+      case FilterCriteriaMatcher.#isOperator(rule, "suffix"):
+        return (
+          typeof value === "string" && value.endsWith(rule.suffix as string)
+        );
+
+      case FilterCriteriaMatcher.#isOperator(rule, "equals-ignore-case"):
+        return (
+          typeof value === "string" &&
+          value.toLowerCase() ===
+            (rule["equals-ignore-case"] as string).toLowerCase()
+        );
+
+      case FilterCriteriaMatcher.#isOperator(rule, "numeric"): {
+        if (typeof value !== "number") {
+          return false;
+        }
+
+        // e.g. [">", 0, "<=", 5]
+        const conditions = rule.numeric as readonly (
+          | keyof typeof NUMERIC_OPERATORS
+          | number
+        )[];
+        for (let i = 0; i < conditions.length; i += 2) {
+          const operator = conditions[i] as keyof typeof NUMERIC_OPERATORS;
+          if (
+            !NUMERIC_OPERATORS[operator](value, conditions[i + 1] as number)
+          ) {
+            return false;
+          }
+        }
+        return true;
+      }
+
+      case FilterCriteriaMatcher.#isOperator(rule, "anything-but"): {
+        const excluded = rule["anything-but"];
+        if (FilterCriteriaMatcher.#isOperator(excluded, "prefix")) {
+          return (
+            typeof value === "string" &&
+            !value.startsWith(excluded.prefix as string)
+          );
+        }
+
+        return !(Array.isArray(excluded) ? excluded : [excluded]).includes(
+          value,
+        );
+      }
+
+      default:
+        return rule === value;
+    }
+  }
+
+  /** Indicates whether a rule is an object with the specified operator. */
+  static #isOperator<K extends string>(
+    rule: unknown,
+    operator: K,
+  ): rule is { readonly [key in K]: unknown } {
+    return typeof rule === "object" && rule !== null && operator in rule;
+  }
+
+  static #validatePattern(
+    pattern: unknown,
+    source: string,
+  ): asserts pattern is FilterPattern {
+    if (typeof pattern !== "object" || !pattern || Array.isArray(pattern)) {
+      throw new Error(`Invalid filter pattern: ${source}`);
+    }
+
+    for (const rules of Object.values(pattern)) {
+      if (Array.isArray(rules)) {
+        for (const rule of rules) {
+          FilterCriteriaMatcher.#validateRule(rule, source);
+        }
+      } else {
+        FilterCriteriaMatcher.#validatePattern(rules, source);
+      }
+    }
+  }
+
+  static #validateRule(rule: unknown, source: string): void {
+    if (typeof rule !== "object" || rule === null) {
+      return;
+    }
+
+    const [operator, ...rest] = Object.keys(rule);
+    const operand: unknown = (rule as Record<string, unknown>)[operator];
+    const valid = ((): boolean => {
+      switch (operator) {
+        case "prefix":
+        case "suffix":
+        case "equals-ignore-case":
+          return typeof operand === "string";
+        case "exists":
+          return typeof operand === "boolean";
+        case "numeric":
+          return (
+            Array.isArray(operand) &&
+            operand.length > 0 &&
+            operand.length % 2 === 0 &&
+            operand.every((item, i) =>
+              i % 2 === 0
+                ? Object.hasOwn(NUMERIC_OPERATORS, item)
+                : typeof item === "number",
+            )
+          );
+        case "anything-but":
+          return (
+            typeof operand !== "object" ||
+            operand === null ||
+            Array.isArray(operand) ||
+            (Object.keys(operand).length === 1 &&
+              typeof (operand as Record<string, unknown>).prefix === "string")
+          );
+        default:
+          return false;
+      }
+    })();
+
+    if (!valid || rest.length) {
+      throw new Error(
+        `Invalid filter pattern: ${source}. Unsupported rule: ${JSON.stringify(rule)}`,
+      );
+    }
+  }
+}
@@ -1 +1,2 @@
+export * from "./filter-criteria";
 export * from "./sqs-lambda-helper";
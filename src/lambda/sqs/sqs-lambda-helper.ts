@@ -1,41 +1,215 @@
-import { GetQueueUrlCommand, type Message } from "@aws-sdk/client-sqs";
-import type { SQSEvent, SQSHandler } from "aws-lambda";
+import { createHash, randomBytes, randomUUID } from "node:crypto";
 
+import {
+  GetQueueAttributesCommand,
+  GetQueueUrlCommand,
+  type Message,
+  type MessageAttributeValue,
+} from "@aws-sdk/client-sqs";
+import type { SQSEvent, SQSHandler, SQSRecord } from "aws-lambda";
+
+import type { Codec } from "../../codec/codec";
 import { type Logger, NoLogger } from "../../logger";
 import { SqsHelper } from "../../sqs/sqs-helper";
-import { LambdaHelper } from "..";
+import { SqsMessageAttributes } from "../../sqs/sqs-message-attributes";
+import { type InvokeLambdaOutput, LambdaHelper } from "..";
+import { type FilterCriteria, FilterCriteriaMatcher } from "./filter-criteria";
+
+export interface CreateSqsEventInput extends Omit<ToSqsEventInput, "messages"> {
+  /**
+   * The codec that encodes the message bodies, along with their message attributes.
+   * If not specified, strings are used as-is and other values are encoded as JSON.
+   */
+  readonly codec?: Codec<unknown>;
+
+  /** The messages of the event. */
+  readonly messages: readonly CreateSqsEventMessage[];
+}
+
+export interface CreateSqsEventMessage {
+  /** The message body, encoded by the `codec` if specified. */
+  readonly body: unknown;
+
+  /** The message attributes, which override the ones of the `codec`. */
+  readonly messageAttributes?: Readonly<Record<string, MessageAttributeValue>>;
+
+  /** The values that override the generated ones, e.g. `Attributes.ApproximateReceiveCount`. */
+  readonly overrides?: Partial<Message>;
+}
+
+export interface CreateSqsEventOutput extends ToSqsEventOutput {
+  /** The generated SQS messages. */
+  readonly messages: readonly Message[];
+}
+
+export interface DecodeSqsEventInput<T> {
+  /** The codec that decodes the record bodies. */
+  readonly codec: Codec<T>;
+
+  /** The SQS event. */
+  readonly event: SQSEvent;
+}
+
+export interface DecodeSqsEventOutput<T> {
+  /** The records of the event with their decoded bodies. */
+  readonly records: readonly DecodedSqsRecord<T>[];
+}
+
+/** An SQS record with its body decoded by a {@link Codec}. */
+export type DecodedSqsRecord<T> = SQSRecord & {
+  /** The decoded body. */
+  readonly decodedBody: T;
+};
 
 export interface RunSqsLambdaInput {
   /** An abort signal. */
   readonly abortSignal?: AbortSignal;
 
+  /**
+   * The maximum duration in seconds to gather messages before invoking the handler with an incomplete batch.
+   * Equivalent to the `MaximumBatchingWindowInSeconds` of an event source mapping. If not specified, the handler is
+   * only invoked with complete batches.
+   */
+  readonly batchingWindow?: number;
+
   /** The batch size. */
   readonly batchSize: number;
 
   /** The AWS endpoint URL. */
   readonly endpoint: string;
 
+  /**
+   * The filter criteria of the event source mapping. The messages that don't match are deleted without invoking the
+   * handler.
+   */
+  readonly filterCriteria?: FilterCriteria;
+
   /** The Lambda handler. */
   readonly handler: SQSHandler;
 
   /** The logger. */
   readonly logger?: Logger;
 
-  /** The SQS queue. */
-  readonly queue:
-    | {
-        /** The SQS queue name. */
-        readonly name: string;
-      }
-    | {
-        /** The SQS queue url. */
-        readonly url: string;
-      };
+  /**
+   * The maximum size in bytes of the messages of an invocation. Messages received beyond it are left for a later batch.
+   * @default 6291456, i.e. the Lambda invocation payload limit
+   */
+  readonly maxPayloadSize?: number;
+
+  /**
+   * The number of pollers that invoke the handler concurrently.
+   * Equivalent to the `MaximumConcurrency` of an event source mapping.
+   * @default 1
+   */
+  readonly maximumConcurrency?: number;
+
+  /**
+   * The SQS queue, or several queues that are polled independently, like several event source mappings of a function.
+   * The settings of each {@link SqsEventSource} default to the ones of the input.
+   */
+  readonly queue: SqsQueueReference | readonly SqsEventSource[];
+
+  /**
+   * Indicates whether the handler reports partial batch failures with a {@link SqsBatchResponse}.
+   * Equivalent to the `ReportBatchItemFailures` function response type of an event source mapping.
+   * @default false
+   */
+  readonly reportBatchItemFailures?: boolean;
 
   /** The Lambda timeout in seconds. */
   readonly timeout: number;
+
+  /**
+   * Indicates whether to track the asynchronous resources created by the handler, to log the ones still alive once
+   * it's settled. See {@link LambdaHelper.invokeLambda}.
+   * @default false
+   */
+  readonly trackAsyncResources?: boolean;
+}
+
+/**
+ * The response of a {@link SQSHandler} that reports partial batch failures.
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/services-sqs-errorhandling.html#services-sqs-batchfailurereporting
+ */
+export interface SqsBatchResponse {
+  /** The messages that failed to be processed. */
+  readonly batchItemFailures?: readonly {
+    /** The message ID of the failed message. */
+    readonly itemIdentifier: string;
+  }[];
+}
+
+/** An SQS queue with the settings of its event source mapping. */
+export type SqsEventSource = SqsQueueReference &
+  Partial<
+    Pick<
+      RunSqsLambdaInput,
+      | "batchingWindow"
+      | "batchSize"
+      | "filterCriteria"
+      | "maximumConcurrency"
+      | "reportBatchItemFailures"
+    >
+  >;
+
+/** A running {@link SqsLambdaHelper.startSqsLambda} poller. */
+export interface SqsLambdaRunner {
+  /** Resolves once the runner is stopped, or rejects with the error that stopped it. */
+  readonly done: Promise<void>;
+
+  /** The live statistics per queue URL. */
+  readonly queueStats: Readonly<Record<string, SqsLambdaRunnerStats>>;
+
+  /** The live statistics of all the queues. */
+  readonly stats: SqsLambdaRunnerStats;
+
+  /** Pauses polling. The in-flight polls are aborted, and the batches being processed are completed. */
+  pause(): void;
+
+  /** Resumes polling after {@link SqsLambdaRunner.pause}. */
+  resume(): void;
+
+  /** Stops the runner. See {@link SqsLambdaRunner.done}. */
+  stop(): Promise<void>;
+
+  /** Resolves once the queue is empty and no batch is being processed. */
+  waitForIdle(input?: WaitForIdleInput): Promise<void>;
+}
+
+export interface SqsLambdaRunnerStats {
+  /** The number of failed invocations, including the timed out ones. */
+  readonly failures: number;
+
+  /** The number of messages that were deleted because they don't match the filter criteria. */
+  readonly filteredMessages: number;
+
+  /** The number of invocations. */
+  readonly invocations: number;
+
+  /** The number of polls that returned a batch of messages. */
+  readonly polls: number;
+
+  /** The number of messages that were successfully processed and deleted. */
+  readonly processedMessages: number;
+
+  /** The number of successful invocations. */
+  readonly successes: number;
+
+  /** The number of timed out invocations. */
+  readonly timeouts: number;
 }
 
+/** An SQS queue referenced by name or URL. */
+export type SqsQueueReference =
+  | {
+      /** The SQS queue name. */
+      readonly name: string;
+    }
+  | {
+      /** The SQS queue url. */
+      readonly url: string;
+    };
+
 export interface ToSqsEventInput {
   /**
    * The AWS account ID.
@@ -46,12 +220,24 @@ export interface ToSqsEventInput {
   /** The SQS messages. */
   readonly messages: readonly Message[];
 
+  /**
+   * The SQS queue ARN, from which the region, account and queue name are derived unless specified.
+   * Takes precedence over `queueUrl`.
+   */
+  readonly queueArn?: string;
+
   /**
    * The SQS queue name.
    * @default "queue"
    */
   readonly queueName?: string;
 
+  /**
+   * The SQS queue URL, from which the region (if present in the hostname), account and queue name are derived unless
+   * specified.
+   */
+  readonly queueUrl?: string;
+
   /**
    * The AWS region.
    * @default process.env.AWS_REGION ?? "us-east-1"
@@ -64,84 +250,754 @@ export interface ToSqsEventOutput {
   readonly event: SQSEvent;
 }
 
+export interface WaitForIdleInput {
+  /**
+   * The interval in milliseconds between checks.
+   * @default 100
+   */
+  readonly interval?: number;
+
+  /**
+   * The maximum duration in milliseconds to wait.
+   * @default 30000
+   */
+  readonly timeout?: number;
+}
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+/** The parts of an SQS queue ARN or URL. */
+interface QueueLocation {
+  readonly account?: string;
+  readonly partition?: string;
+  readonly queueName?: string;
+  readonly region?: string;
+}
+
+/** An {@link SqsEventSource} with its defaults applied, and its runtime state. */
+interface EventSourcePoller {
+  readonly batchingWindow?: number;
+  readonly batchSize: number;
+  readonly config: QueueConfig;
+  readonly matcher?: FilterCriteriaMatcher;
+  readonly maximumConcurrency: number;
+  readonly reportBatchItemFailures: boolean;
+  readonly stats: Mutable<SqsLambdaRunnerStats>;
+}
+
+/** The configuration of an SQS queue relevant to polling it. */
+interface QueueConfig {
+  /** The dead-letter queue URL, if the queue has a redrive policy. */
+  readonly deadLetterQueueUrl?: string;
+
+  /** Indicates whether the queue is a FIFO queue. */
+  readonly fifo: boolean;
+
+  /** The number of receives after which a message is moved to the dead-letter queue. */
+  readonly maxReceiveCount?: number;
+
+  /** The SQS queue ARN. */
+  readonly queueArn: string;
+
+  /** The SQS queue URL. */
+  readonly queueUrl: string;
+
+  /** The queue visibility timeout in seconds. */
+  readonly visibilityTimeout: number;
+}
+
+/**
+ * The default maximum size in bytes of the messages of an invocation, i.e. the Lambda invocation payload limit.
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/gettingstarted-limits.html
+ */
+const DEFAULT_MAX_PAYLOAD_SIZE = 6291456;
+
+/** The sender ID of the generated messages, an IAM user ID. */
+const DEFAULT_SENDER_ID = "AIDAIT2UOQQY3AUEKVGXU";
+
+/**
+ * The transport types of message attribute values, used to compute `MD5OfMessageAttributes`.
+ * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-message-metadata.html#sqs-attributes-md5-message-digest-calculation
+ */
+const STRING_TRANSPORT_TYPE = 1;
+const BINARY_TRANSPORT_TYPE = 2;
+
 /** Provides utilities for AWS Lambda handler functions that consume {@link SQSEvent}. */
 export class SqsLambdaHelper {
   private constructor() {}
 
-  /** Simulates the Lambda service invoking a {@link SQSHandler}. */
+  /**
+   * Creates an {@link SQSEvent} without SQS, e.g. for unit tests of handlers.
+   * The message IDs, receipt handles, MD5 digests and system attributes are generated as SQS would.
+   */
+  static createSqsEvent(input: CreateSqsEventInput): CreateSqsEventOutput {
+    const { codec, messages: entries, ...rest } = input;
+
+    const timestamp = Date.now().toString();
+    const messages = entries.map(
+      ({ body: value, overrides = {}, ...entry }): Message => {
+        const { attributes, body: Body } = codec
+          ? codec.encode(value)
+          : {
+              body: typeof value === "string" ? value : JSON.stringify(value),
+            };
+        const messageAttributes = {
+          ...(attributes && SqsMessageAttributes.encode(attributes)),
+          ...entry.messageAttributes,
+        };
+        const MessageId = randomUUID();
+        const hasAttributes = Object.keys(messageAttributes).length > 0;
+
+        return {
+          ...(hasAttributes
+            ? {
+                MD5OfMessageAttributes:
+                  SqsLambdaHelper.#getMessageAttributesMd5(messageAttributes),
+                MessageAttributes: messageAttributes,
+              }
+            : {}),
+          Body,
+          MD5OfBody: createHash("md5").update(Body).digest("hex"),
+          MessageId,
+          ReceiptHandle: Buffer.concat([
+            Buffer.from(`${MessageId} `),
+            randomBytes(64),
+          ]).toString("base64"),
+          ...overrides,
+          Attributes: {
+            ApproximateFirstReceiveTimestamp: timestamp,
+            ApproximateReceiveCount: "1",
+            SenderId: DEFAULT_SENDER_ID,
+            SentTimestamp: timestamp,
+            ...overrides.Attributes,
+          },
+        };
+      },
+    );
+
+    return {
+      ...SqsLambdaHelper.toSqsEvent({ ...rest, messages }),
+      messages,
+    };
+  }
+
+  /** Decodes the record bodies of an SQS event, e.g. to assert on the values a handler receives. */
+  static decodeSqsEvent<T>(
+    input: DecodeSqsEventInput<T>,
+  ): DecodeSqsEventOutput<T> {
+    const { codec, event } = input;
+
+    return {
+      records: event.Records.map((record) => ({
+        ...record,
+        decodedBody: codec.decode(
+          record.body,
+          SqsMessageAttributes.decode(record.messageAttributes),
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Simulates the Lambda service invoking a {@link SQSHandler} until the `abortSignal` is aborted.
+   * See {@link SqsLambdaHelper.startSqsLambda}.
+   */
   static async runSqsLambda(input: RunSqsLambdaInput): Promise<void> {
+    const runner = await SqsLambdaHelper.startSqsLambda(input);
+    await runner.done;
+  }
+
+  /**
+   * Simulates the Lambda service invoking a {@link SQSHandler}, and returns a {@link SqsLambdaRunner} to control it.
+   * Only the successfully processed messages are deleted from the queue.
+   * Failed messages become visible again after the queue visibility timeout, and are moved to the dead-letter queue
+   * once the `maxReceiveCount` of the queue redrive policy is reached.
+   */
+  static async startSqsLambda(
+    input: RunSqsLambdaInput,
+  ): Promise<SqsLambdaRunner> {
     const {
       abortSignal,
-      batchSize,
       endpoint,
       handler,
       logger = new NoLogger(),
+      maxPayloadSize = DEFAULT_MAX_PAYLOAD_SIZE,
       queue,
       timeout,
+      trackAsyncResources,
     } = input;
 
-    // get queue URL
-    let queueUrl: string;
-    if ("name" in queue) {
-      const { QueueUrl } = await SqsHelper.send({
-        command: new GetQueueUrlCommand({
-          QueueName: queue.name,
-        }),
-        endpoint,
-      });
-      queueUrl = QueueUrl!;
-    } else {
-      queueUrl = queue.url;
+    const sources: readonly SqsEventSource[] = Array.isArray(queue)
+      ? queue
+      : [queue];
+    if (!sources.length) {
+      throw new Error("At least one SQS queue must be specified.");
     }
 
-    // poll/invoke loop
-    while (abortSignal === undefined || !abortSignal.aborted) {
-      // poll SQS queue
-      logger.info("Polling for SQS messages...");
-      let messages: readonly Message[];
-      try {
-        const res = await SqsHelper.getMessages({
-          abortSignal,
+    const pollers = await Promise.all(
+      sources.map(async (source): Promise<EventSourcePoller> => {
+        const {
+          batchingWindow = input.batchingWindow,
+          batchSize = input.batchSize,
+          filterCriteria = input.filterCriteria,
+          maximumConcurrency = input.maximumConcurrency ?? 1,
+          reportBatchItemFailures = input.reportBatchItemFailures ?? false,
+        } = source;
+
+        if (maximumConcurrency < 1) {
+          throw new Error(
+            "Maximum concurrency must be equal or greater than 1.",
+          );
+        }
+
+        // get queue URL
+        let queueUrl: string;
+        if ("name" in source) {
+          const { QueueUrl } = await SqsHelper.send({
+            command: new GetQueueUrlCommand({
+              QueueName: source.name,
+            }),
+            endpoint,
+          });
+          queueUrl = QueueUrl!;
+        } else {
+          queueUrl = source.url;
+        }
+
+        return {
+          batchingWindow,
           batchSize,
-          endpoint,
-          queueUrl,
+          config: await SqsLambdaHelper.#getQueueConfig(endpoint, queueUrl),
+          matcher: filterCriteria && new FilterCriteriaMatcher(filterCriteria),
+          maximumConcurrency,
+          reportBatchItemFailures,
+          stats: SqsLambdaHelper.#createStats(),
+        };
+      }),
+    );
+
+    let activeBatches = 0;
+
+    // the pollers are stopped when the input signal is aborted, the runner is stopped or any of them fails
+    const stopController = new AbortController();
+    // the in-flight polls are also aborted when the runner is paused
+    let pollController = new AbortController();
+    let paused: { promise: Promise<void>; resolve: () => void } | undefined;
+    const stop = () => {
+      stopController.abort();
+      pollController.abort();
+      paused?.resolve();
+    };
+    if (abortSignal?.aborted) {
+      stop();
+    }
+    abortSignal?.addEventListener("abort", stop, { once: true });
+
+    // poll/invoke loop
+    const poll = async (poller: EventSourcePoller): Promise<void> => {
+      const {
+        batchingWindow,
+        batchSize,
+        config,
+        matcher,
+        reportBatchItemFailures,
+        stats,
+      } = poller;
+      const { queueUrl } = config;
+
+      while (!stopController.signal.aborted) {
+        if (paused) {
+          await paused.promise;
+          continue;
+        }
+
+        // poll SQS queue
+        logger.info("Polling for SQS messages...", { queueUrl });
+        let messages: readonly Message[];
+        try {
+          const res = await SqsHelper.getMessages({
+            abortSignal: pollController.signal,
+            batchSize,
+            endpoint,
+            // messages are deleted once processed
+            keep: true,
+            maxPayloadSize,
+            maxWaitTime: batchingWindow,
+            queueUrl,
+            // hide messages from subsequent polls while they're being processed
+            visibilityTimeout: config.visibilityTimeout,
+          });
+          messages = res.messages;
+        } catch (error) {
+          // stopped or paused
+          if (error instanceof Error && error.name === "AbortError") {
+            continue;
+          }
+          throw error;
+        }
+        stats.polls++;
+        activeBatches++;
+
+        // delete the messages that don't match the filter criteria without invoking the handler
+        if (matcher) {
+          const { Records } = SqsLambdaHelper.toSqsEvent({
+            messages,
+            queueArn: config.queueArn,
+          }).event;
+          const filtered = messages.filter(
+            (_, i) => !matcher.matches(Records[i]),
+          );
+          if (filtered.length) {
+            logger.info(
+              `Deleting ${filtered.length} messages that don't match the filter criteria.`,
+              { messageIds: filtered.map((m) => m.MessageId) },
+            );
+            await SqsHelper.deleteMessages({
+              endpoint,
+              messages: filtered,
+              queueUrl,
+            });
+            stats.filteredMessages += filtered.length;
+            messages = messages.filter((m) => !filtered.includes(m));
+          }
+
+          if (!messages.length) {
+            activeBatches--;
+            continue;
+          }
+        }
+
+        // invoke Lambda handler
+        logger.info(
+          `Invoking lambda handler with ${messages.length} messages.`,
+        );
+        const output = await LambdaHelper.invokeLambda({
+          event: SqsLambdaHelper.toSqsEvent({
+            messages,
+            queueArn: config.queueArn,
+          }).event,
+          handler,
+          timeout,
+          trackAsyncResources,
         });
-        messages = res.messages;
-      } catch (error) {
-        if (error instanceof Error && error.name === "AbortError") {
-          break;
+        stats.invocations++;
+        if (output.success) {
+          stats.successes++;
+          logger.info("Successfully invoked lambda handler.", {
+            result: output.result,
+          });
+        } else {
+          stats.failures++;
+          if (output.timeout) {
+            stats.timeouts++;
+          }
+          logger.error("Failed to invoke lambda handler.", {
+            error: output.error,
+            timeout: output.timeout,
+          });
+        }
+        if (output.pendingResources) {
+          logger.warn(
+            "The lambda handler left asynchronous work running after returning.",
+            { pendingResources: output.pendingResources },
+          );
+        }
+
+        // delete successfully processed messages
+        let failed = SqsLambdaHelper.#getFailedMessages(
+          messages,
+          output,
+          reportBatchItemFailures,
+          logger,
+        );
+        if (config.fifo) {
+          failed = SqsLambdaHelper.#getBlockedMessages(
+            messages,
+            failed,
+            logger,
+          );
+        }
+        const succeeded = messages.filter((m) => !failed.includes(m));
+        const exhausted = failed.filter(
+          (m) =>
+            config.maxReceiveCount !== undefined &&
+            parseInt(m.Attributes?.ApproximateReceiveCount ?? "1") >=
+              config.maxReceiveCount,
+        );
+        const retried = failed.filter((m) => !exhausted.includes(m));
+        if (retried.length) {
+          logger.warn(
+            `Leaving ${retried.length} failed messages in the queue for retry.`,
+            { messageIds: retried.map((m) => m.MessageId) },
+          );
         }
-        throw error;
+        if (exhausted.length) {
+          logger.warn(
+            `Moving ${exhausted.length} failed messages to the dead-letter queue.`,
+            { messageIds: exhausted.map((m) => m.MessageId) },
+          );
+          await SqsLambdaHelper.#moveToDeadLetterQueue(
+            endpoint,
+            config,
+            exhausted,
+          );
+        }
+        if (succeeded.length) {
+          logger.info(`Deleting ${succeeded.length} processed messages.`);
+          await SqsHelper.deleteMessages({
+            endpoint,
+            messages: succeeded,
+            queueUrl,
+          });
+        }
+        stats.processedMessages += succeeded.length;
+        activeBatches--;
       }
+    };
 
-      // invoke Lambda handler
-      logger.info(`Invoking lambda handler with ${messages.length} messages.`);
-      const output = await LambdaHelper.invokeLambda({
-        event: SqsLambdaHelper.toSqsEvent({ messages }).event,
-        handler,
-        timeout,
-      });
-      if (output.success) {
-        logger.info("Successfully invoked lambda handler.", {
-          result: output.result,
-        });
+    let failure: { error: unknown } | undefined;
+    const done = (async () => {
+      try {
+        // a failed poller stops the others, which finish their batches before the failure is reported
+        const results = await Promise.allSettled(
+          pollers.flatMap((poller) =>
+            Array.from({ length: poller.maximumConcurrency }).map(async () => {
+              try {
+                await poll(poller);
+              } catch (error) {
+                stop();
+                throw error;
+              }
+            }),
+          ),
+        );
+        const rejected = results.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === "rejected",
+        );
+        if (rejected) {
+          throw rejected.reason;
+        }
+      } finally {
+        abortSignal?.removeEventListener("abort", stop);
+        for (const { config, stats } of pollers) {
+          logger.info("SQS queue statistics.", {
+            queueUrl: config.queueUrl,
+            stats,
+          });
+        }
+      }
+    })();
+    // the failure is reported by `done`, `stop` and `waitForIdle`
+    done.catch((error: unknown) => {
+      failure = { error };
+    });
+
+    const isIdle = async (): Promise<boolean> => {
+      if (activeBatches) {
+        return false;
+      }
+
+      const queueStats = await Promise.all(
+        pollers.map(({ config }) =>
+          SqsHelper.getQueueStats({ endpoint, queueUrl: config.queueUrl }),
+        ),
+      );
+      return (
+        !activeBatches &&
+        queueStats.every(
+          ({ delayed, inFlight, visible }) => !delayed && !inFlight && !visible,
+        )
+      );
+    };
+
+    return {
+      done,
+      pause() {
+        if (paused || stopController.signal.aborted) {
+          return;
+        }
+
+        let resolve!: () => void;
+        const promise = new Promise<void>((r) => (resolve = r));
+        paused = { promise, resolve };
+        pollController.abort();
+        logger.info("Paused polling.");
+      },
+      resume() {
+        if (!paused) {
+          return;
+        }
+
+        pollController = new AbortController();
+        paused.resolve();
+        paused = undefined;
+        logger.info("Resumed polling.");
+      },
+      get queueStats() {
+        return Object.fromEntries(
+          pollers.map(({ config, stats }) => [config.queueUrl, { ...stats }]),
+        );
+      },
+      get stats() {
+        const total = SqsLambdaHelper.#createStats();
+        for (const { stats } of pollers) {
+          for (const key of Object.keys(total) as (keyof typeof total)[]) {
+            total[key] += stats[key];
+          }
+        }
+        return total;
+      },
+      async stop() {
+        stop();
+        await done;
+      },
+      async waitForIdle(waitInput = {}) {
+        const { interval = 100, timeout = 30000 } = waitInput;
+
+        const deadline = Date.now() + timeout;
+        for (;;) {
+          if (failure) {
+            throw failure.error;
+          }
+          if (await isIdle()) {
+            return;
+          }
+          if (Date.now() >= deadline) {
+            throw new Error(
+              `The SQS queues did not become idle within ${timeout} ms.`,
+            );
+          }
+          await new Promise((resolve) => setTimeout(resolve, interval));
+        }
+      },
+    };
+  }
+
+  /** Creates empty {@link SqsLambdaRunnerStats}. */
+  static #createStats(): Mutable<SqsLambdaRunnerStats> {
+    return {
+      failures: 0,
+      filteredMessages: 0,
+      invocations: 0,
+      polls: 0,
+      processedMessages: 0,
+      successes: 0,
+      timeouts: 0,
+    };
+  }
+
+  /**
+   * Gets the messages of a FIFO queue batch that must not be deleted: the failed messages and the messages that follow
+   * them within the same message group. This keeps the message group blocked until the failed messages are retried.
+   */
+  static #getBlockedMessages(
+    messages: readonly Message[],
+    failed: readonly Message[],
+    logger: Logger,
+  ): readonly Message[] {
+    const failedGroups = new Set<string | undefined>();
+    const blocked = messages.filter((m) => {
+      const group = m.Attributes?.MessageGroupId;
+      if (failed.includes(m)) {
+        failedGroups.add(group);
+        return true;
+      }
+
+      return failedGroups.has(group);
+    });
+
+    if (blocked.length > failed.length) {
+      logger.warn(
+        `Keeping ${blocked.length - failed.length} messages that follow failed messages in their message groups.`,
+        { messageGroupIds: [...failedGroups] },
+      );
+    }
+
+    return blocked;
+  }
+
+  /** Gets the configuration of an SQS queue. */
+  static async #getQueueConfig(
+    endpoint: string,
+    queueUrl: string,
+  ): Promise<QueueConfig> {
+    const { Attributes = {} } = await SqsHelper.send({
+      command: new GetQueueAttributesCommand({
+        AttributeNames: [
+          "FifoQueue",
+          "QueueArn",
+          "RedrivePolicy",
+          "VisibilityTimeout",
+        ],
+        QueueUrl: queueUrl,
+      }),
+      endpoint,
+    });
+
+    const fifo = Attributes.FifoQueue === "true";
+    const queueArn = Attributes.QueueArn!;
+    const visibilityTimeout = parseInt(Attributes.VisibilityTimeout ?? "30");
+    if (!Attributes.RedrivePolicy) {
+      return { fifo, queueArn, queueUrl, visibilityTimeout };
+    }
+
+    // resolve the dead-letter queue from its ARN
+    const { deadLetterTargetArn, maxReceiveCount } = JSON.parse(
+      Attributes.RedrivePolicy,
+    ) as { deadLetterTargetArn: string; maxReceiveCount: number | string };
+    const { account, queueName } =
+      SqsLambdaHelper.#parseQueueArn(deadLetterTargetArn);
+    const { QueueUrl } = await SqsHelper.send({
+      command: new GetQueueUrlCommand({
+        QueueName: queueName,
+        QueueOwnerAWSAccountId: account,
+      }),
+      endpoint,
+    });
+
+    return {
+      deadLetterQueueUrl: QueueUrl!,
+      fifo,
+      maxReceiveCount: Number(maxReceiveCount),
+      queueArn,
+      queueUrl,
+      visibilityTimeout,
+    };
+  }
+
+  /**
+   * Computes the MD5 digest of message attributes as SQS does: the attributes are sorted by name, and the name, data
+   * type, transport type and value of each one are encoded as length-prefixed bytes.
+   * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-message-metadata.html#sqs-attributes-md5-message-digest-calculation
+   */
+  static #getMessageAttributesMd5(
+    messageAttributes: Readonly<Record<string, MessageAttributeValue>>,
+  ): string {
+    const hash = createHash("md5");
+    const update = (value: string | Uint8Array): void => {
+      const bytes = typeof value === "string" ? Buffer.from(value) : value;
+      const length = Buffer.alloc(4);
+      length.writeUInt32BE(bytes.length);
+      hash.update(length).update(bytes);
+    };
+
+    for (const name of Object.keys(messageAttributes).sort()) {
+      const { BinaryValue, DataType, StringValue } = messageAttributes[name];
+      update(name);
+      update(DataType!);
+      if (BinaryValue !== undefined) {
+        hash.update(Buffer.from([BINARY_TRANSPORT_TYPE]));
+        update(BinaryValue);
       } else {
-        logger.error("Failed to invoke lambda handler.", {
-          error: output.error,
-          timeout: output.timeout,
-        });
+        hash.update(Buffer.from([STRING_TRANSPORT_TYPE]));
+        update(StringValue ?? "");
       }
     }
+
+    return hash.digest("hex");
+  }
+
+  /** Parses an SQS queue ARN: `arn:<partition>:sqs:<region>:<account>:<name>`. */
+  static #parseQueueArn(queueArn: string): QueueLocation {
+    const [, partition, , region, account, queueName] = queueArn.split(":");
+    return { account, partition, queueName, region };
+  }
+
+  /**
+   * Parses an SQS queue URL: `<scheme>://<host>/<account>/<name>`. The region is only available for hosts like
+   * `sqs.<region>.amazonaws.com`, `<region>.queue.amazonaws.com` or `sqs.<region>.localhost.localstack.cloud`.
+   */
+  static #parseQueueUrl(queueUrl: string): QueueLocation {
+    const { hostname, pathname } = new URL(queueUrl);
+    const [account, queueName] = pathname.split("/").filter(Boolean).slice(-2);
+    const region =
+      /(?:^|\.)sqs\.([a-z0-9-]+)\./.exec(hostname)?.[1] ??
+      /^([a-z0-9-]+)\.queue\./.exec(hostname)?.[1];
+    return { account, queueName, region };
+  }
+
+  /** Moves messages to the dead-letter queue, as the SQS redrive policy does. */
+  static async #moveToDeadLetterQueue(
+    endpoint: string,
+    config: QueueConfig,
+    messages: readonly Message[],
+  ): Promise<void> {
+    await SqsHelper.sendMessages({
+      endpoint,
+      messages: messages.map(({ Attributes, Body, MessageAttributes }) => ({
+        MessageAttributes,
+        MessageBody: Body,
+        MessageDeduplicationId: Attributes?.MessageDeduplicationId,
+        MessageGroupId: Attributes?.MessageGroupId,
+      })),
+      queueUrl: config.deadLetterQueueUrl!,
+    });
+
+    await SqsHelper.deleteMessages({
+      endpoint,
+      messages,
+      queueUrl: config.queueUrl,
+    });
+  }
+
+  /**
+   * Gets the messages that failed to be processed by an invocation.
+   * @see https://docs.aws.amazon.com/lambda/latest/dg/services-sqs-errorhandling.html#services-sqs-batchfailurereporting
+   */
+  static #getFailedMessages(
+    messages: readonly Message[],
+    output: InvokeLambdaOutput<unknown>,
+    reportBatchItemFailures: boolean,
+    logger: Logger,
+  ): readonly Message[] {
+    // failed invocations fail the entire batch
+    if (!output.success) {
+      return messages;
+    }
+
+    if (!reportBatchItemFailures) {
+      return [];
+    }
+
+    // null or empty responses are a complete success
+    const failures: unknown = (output.result as SqsBatchResponse | null)
+      ?.batchItemFailures;
+    if (failures === undefined || failures === null) {
+      return [];
+    }
+
+    // invalid responses are a complete failure
+    const ids = Array.isArray(failures)
+      ? failures.map((f) => f?.itemIdentifier)
+      : [undefined];
+    const failed = messages.filter((m) => ids.includes(m.MessageId));
+    if (failed.length !== new Set(ids).size) {
+      logger.error(
+        "Invalid batch item failures response, failing the entire batch.",
+        { batchItemFailures: failures },
+      );
+      return messages;
+    }
+
+    return failed;
   }
 
   /** Converts {@link Message} instances to an {@link SQSEvent}. */
   static toSqsEvent(input: ToSqsEventInput): ToSqsEventOutput {
+    const { messages, queueArn, queueUrl } = input;
+
+    const location: QueueLocation = queueArn
+      ? SqsLambdaHelper.#parseQueueArn(queueArn)
+      : queueUrl
+        ? SqsLambdaHelper.#parseQueueUrl(queueUrl)
+        : {};
     const {
-      account = "123456789012",
-      messages,
-      queueName = "queue",
-      region = process.env.AWS_REGION ?? "us-east-1",
+      account = location.account ?? "123456789012",
+      queueName = location.queueName ?? "queue",
+      region = location.region ?? process.env.AWS_REGION ?? "us-east-1",
     } = input;
+    const partition = location.partition ?? "aws";
 
     return {
       event: {
@@ -150,7 +1006,7 @@ export class SqsLambdaHelper {
             m.Attributes as unknown as SQSEvent["Records"][0]["attributes"],
           awsRegion: region,
           eventSource: "aws:sqs",
-          eventSourceARN: `arn:aws:sqs:${region}:${account}:${queueName}`,
+          eventSourceARN: `arn:${partition}:sqs:${region}:${account}:${queueName}`,
           body: m.Body!,
           md5OfBody: m.MD5OfBody!,
           messageAttributes: m.MessageAttributes
@@ -1 +1,2 @@
 export * from "./sqs-helper";
+export * from "./sqs-message-attributes";
@@ -1,36 +1,154 @@
+import { randomUUID } from "node:crypto";
+
 import {
+  ChangeMessageVisibilityBatchCommand,
   CreateQueueCommand,
   DeleteMessageBatchCommand,
+  DeleteMessageCommand,
   DeleteQueueCommand,
   GetQueueAttributesCommand,
   GetQueueUrlCommand,
+  ListDeadLetterSourceQueuesCommand,
+  ListQueuesCommand,
+  ListQueueTagsCommand,
   type Message,
   PurgeQueueCommand,
+  PurgeQueueInProgress,
+  type QueueAttributeName,
   QueueDoesNotExist,
   QueueNameExists,
   ReceiveMessageCommand,
-  type ReceiveMessageResult,
+  SendMessageBatchCommand,
+  type SendMessageBatchRequestEntry,
   type ServiceInputTypes,
   type ServiceOutputTypes,
   SQSClient,
+  type SQSClientConfig,
   type SQSClientResolvedConfig,
 } from "@aws-sdk/client-sqs";
 import type { Command } from "@smithy/smithy-client";
-import { shallowEqual } from "fast-equals";
+import { deepEqual } from "fast-equals";
+import type { ZodType, ZodTypeDef } from "zod";
+
+import type { Codec } from "../codec/codec";
+import { SqsMessageAttributes } from "./sqs-message-attributes";
+
+/** A message that is deleted from its queue once acknowledged. */
+export type AckableMessage<M extends Message = Message> = M & {
+  /** Deletes the message from the queue. Subsequent calls have no effect. */
+  readonly ack: () => Promise<void>;
+};
 
 export interface CleanQueueInput extends QueueInput {
-  /** Indicates whether the cleanup should be performed with e {@link PurgeQueueCommand}. */
+  /**
+   * Indicates whether the cleanup should be performed with e {@link PurgeQueueCommand}.
+   * If a purge is already in progress, the messages are received and deleted instead.
+   */
   readonly purge?: boolean;
+
+  /**
+   * The maximum duration in milliseconds to wait for the visible, in-flight and delayed messages to be deleted.
+   * @default 30000
+   */
+  readonly timeout?: number;
+}
+
+export interface CreateTemporaryQueueInput extends BaseInput {
+  /** The queue attributes, except `RedrivePolicy` when a dead-letter queue is created. */
+  readonly attributes?: Partial<Record<QueueAttributeName, string>>;
+
+  /** Creates a dead-letter queue for the queue, which is deleted along with it. */
+  readonly deadLetterQueue?: {
+    /** The number of receives after which a message is moved to the dead-letter queue. */
+    readonly maxReceiveCount: number;
+  };
+
+  /**
+   * Indicates whether to create a FIFO queue.
+   * @default false
+   */
+  readonly fifo?: boolean;
+
+  /**
+   * The prefix of the queue name.
+   * @default "temp-"
+   */
+  readonly prefix?: string;
+
+  /** The queue tags. */
+  readonly tags?: Readonly<Record<string, string>>;
+}
+
+/** A message decoded by a {@link Codec}. */
+export type DecodedMessage<T> = Message & {
+  /** The decoded body. */
+  readonly Value: T;
+};
+
+export interface DeleteMessagesInput extends QueueInput {
+  /** The SQS messages to delete. */
+  readonly messages: readonly Message[];
+}
+
+/**
+ * The metadata of an EventBridge event, i.e. the event without its `detail`.
+ * @see https://docs.aws.amazon.com/eventbridge/latest/ref/overiew-event-structure.html
+ */
+export interface EventBridgeEnvelope {
+  readonly account: string;
+  readonly "detail-type": string;
+  readonly id: string;
+  readonly region: string;
+  readonly resources: readonly string[];
+  readonly source: string;
+  readonly time: string;
+  readonly version: string;
+}
+
+export interface GetDecodedMessagesInput<T> extends GetMessagesInput {
+  /** The codec that decodes the message bodies. */
+  readonly codec: Codec<T>;
+
+  /**
+   * Indicates whether to throw the decoding error of the first invalid message.
+   * @default false
+   */
+  readonly strict?: boolean;
+}
+
+export interface GetDecodedMessagesOutput<T> {
+  /** The messages that could not be decoded. */
+  readonly invalid: readonly InvalidJsonMessage[];
+
+  /** The decoded messages. */
+  readonly messages: readonly DecodedMessage<T>[];
 }
 
-export type GetJsonMessagesInput = GetMessagesInput;
+export interface GetJsonMessagesInput<T = unknown> extends GetMessagesInput {
+  /**
+   * The envelope that wraps the JSON payload of the messages:
+   * - `eventbridge`: an EventBridge event (e.g. a rule target), the payload is the `detail`.
+   * - `s3-notification`: an S3 event notification, the payload is the `Records` array.
+   * - `sns`: an SNS notification without raw message delivery, the payload is the JSON in `Message`.
+   */
+  readonly envelope?: JsonEnvelope;
+
+  /**
+   * Indicates whether to throw the parsing or validation error of the first invalid message.
+   * @default false
+   */
+  readonly strict?: boolean;
+
+  /** Validates the parsed JSON bodies. */
+  readonly validator?: JsonValidator<T>;
+}
 
 export interface GetJsonMessagesOutput<T> {
+  /** The messages that could not be parsed or failed validation. */
+  readonly invalid: readonly InvalidJsonMessage[];
+
   /** The JSON messages. */
-  readonly messages: readonly (Message & {
-    /** The parsed JSON body. */
-    readonly Object: T;
-  })[];
+  readonly messages: readonly JsonMessage<T>[];
 }
 
 export interface GetMessagesInput extends QueueInput {
@@ -45,6 +163,24 @@ export interface GetMessagesInput extends QueueInput {
    * @default false
    */
   readonly keep?: boolean;
+
+  /**
+   * The maximum size in bytes of the message bodies and attributes. Messages received beyond it are made visible again
+   * and not returned, unless no message has been received yet.
+   */
+  readonly maxPayloadSize?: number;
+
+  /**
+   * The maximum duration in seconds to wait for `batchSize` messages. Once elapsed, the messages received so far are
+   * returned, or the first ones received if there are none yet.
+   */
+  readonly maxWaitTime?: number;
+
+  /**
+   * The duration in seconds that the received messages are hidden from subsequent receive requests.
+   * @default 0
+   */
+  readonly visibilityTimeout?: number;
 }
 
 export interface GetMessagesOutput {
@@ -52,6 +188,143 @@ export interface GetMessagesOutput {
   readonly messages: readonly Message[];
 }
 
+export type GetQueueStatsInput = QueueInput;
+
+export interface GetQueueStatsOutput {
+  /** The approximate number of delayed messages. */
+  readonly delayed: number;
+
+  /** The approximate number of in-flight messages, i.e. received but not deleted nor visible yet. */
+  readonly inFlight: number;
+
+  /** The approximate number of visible messages. */
+  readonly visible: number;
+}
+
+export interface InvalidJsonMessage {
+  /** The parsing or validation error. */
+  readonly error: unknown;
+
+  /** The SQS message. */
+  readonly message: Message;
+}
+
+/** The envelope that wraps the JSON payload of a message. */
+export type JsonEnvelope = "eventbridge" | "s3-notification" | "sns";
+
+export type JsonMessage<T> = Message & {
+  /** The metadata of the envelope, if the `envelope` option is specified. */
+  readonly Envelope?:
+    | EventBridgeEnvelope
+    | S3NotificationEnvelope
+    | SnsEnvelope;
+
+  /** The parsed JSON body, or the payload of its envelope. */
+  readonly Object: T;
+};
+
+export interface JsonMessagesInput<T = unknown>
+  extends MessagesInput,
+    Pick<GetJsonMessagesInput<T>, "envelope" | "strict" | "validator"> {}
+
+/** Validates a parsed JSON value with a `zod` schema or a type guard. */
+export type JsonValidator<T> =
+  | ZodType<T, ZodTypeDef, unknown>
+  | ((value: unknown) => value is T);
+
+export interface MessagesInput extends QueueInput {
+  /** The abort signal. */
+  readonly abortSignal?: AbortSignal;
+
+  /**
+   * Indicates whether a message is acknowledged automatically once the consumer requests the next one.
+   * @default true
+   */
+  readonly autoAck?: boolean;
+
+  /**
+   * The maximum number of messages to receive per request, between `1` and `10`.
+   * @default 10
+   */
+  readonly batchSize?: number;
+
+  /** The duration in seconds that the received messages are hidden from subsequent receive requests. */
+  readonly visibilityTimeout?: number;
+
+  /**
+   * The duration in seconds to wait for messages per request, i.e. long polling.
+   * @default 20
+   */
+  readonly waitTime?: number;
+}
+
+export interface QueueDiff {
+  /** The actual value, `undefined` if not set. */
+  readonly actual: string | undefined;
+
+  /** The expected value, `undefined` if not set. */
+  readonly expected: string | undefined;
+
+  /** The attribute or tag name. */
+  readonly name: string;
+
+  /** Indicates whether the difference is in a queue attribute or tag. */
+  readonly type: "attribute" | "tag";
+}
+
+/** The metadata of an S3 event notification, i.e. the notification without its `Records`. */
+export type S3NotificationEnvelope = Readonly<Record<string, unknown>>;
+
+export interface QueueIdentifiers {
+  /** The SQS queue ARN. */
+  readonly arn: string;
+
+  /** The SQS queue name. */
+  readonly name: string;
+
+  /** The SQS queue URL. */
+  readonly url: string;
+}
+
+export type ReceiveOldestMessageAgeInput = QueueInput;
+
+export interface ReceiveOldestMessageAgeOutput {
+  /** The age in seconds of the oldest received message, if any. */
+  readonly oldestMessageAge?: number;
+
+  /** The number of received messages. */
+  readonly receivedMessages: number;
+}
+
+export interface RedriveMessagesInput extends QueueInput {
+  /** Indicates whether a message should be moved, all the messages are moved if not specified. */
+  readonly filter?: (message: Message) => boolean;
+
+  /**
+   * The SQS queue URL to move the messages to.
+   * If not specified, it's the only source queue of the dead-letter queue (i.e. the `queueUrl`).
+   */
+  readonly targetQueueUrl?: string;
+
+  /**
+   * The visibility timeout in seconds of the messages while they are moved.
+   * The messages that are not moved become visible again once all the messages are received.
+   * @default 30
+   */
+  readonly visibilityTimeout?: number;
+}
+
+export interface RedriveMessagesOutput {
+  /** The number of messages moved to the target queue. */
+  readonly moved: number;
+
+  /** The number of messages left in the queue as they did not match the `filter`. */
+  readonly skipped: number;
+
+  /** The SQS queue URL the messages were moved to. */
+  readonly targetQueueUrl: string;
+}
+
 export interface SendInput<
   Input extends ServiceInputTypes,
   Output extends ServiceOutputTypes,
@@ -60,19 +333,180 @@ export interface SendInput<
   readonly command: Command<Input, Output, SQSClientResolvedConfig>;
 }
 
+export interface SendEncodedMessagesEntry<T>
+  extends Omit<SendMessagesEntry, "MessageBody"> {
+  /** The value to encode as the body. */
+  readonly Value: T;
+}
+
+export interface SendEncodedMessagesInput<T>
+  extends Omit<SendMessagesInput, "messages"> {
+  /** The codec that encodes the values, its message attributes are overridden by the ones of the entries. */
+  readonly codec: Codec<T>;
+
+  /** The messages to send. */
+  readonly messages: readonly SendEncodedMessagesEntry<T>[];
+}
+
+export type SendEncodedMessagesOutput = SendMessagesOutput;
+
+export interface SendJsonMessagesEntry<T>
+  extends Omit<SendMessagesEntry, "MessageBody"> {
+  /** The object to send as a JSON body. */
+  readonly Object: T;
+}
+
+export interface SendJsonMessagesInput<T>
+  extends Omit<SendMessagesInput, "messages"> {
+  /** The messages to send. */
+  readonly messages: readonly SendJsonMessagesEntry<T>[];
+}
+
+export type SendJsonMessagesOutput = SendMessagesOutput;
+
+export type SendMessagesEntry = Omit<SendMessageBatchRequestEntry, "Id">;
+
+export interface SendMessagesInput extends QueueInput {
+  /**
+   * The maximum number of attempts to send a message that fails due to a service error.
+   * @default 3
+   */
+  readonly maxAttempts?: number;
+
+  /** The messages to send. A string is equivalent to `{ MessageBody: string }`. */
+  readonly messages: readonly (string | SendMessagesEntry)[];
+}
+
+export interface SendMessagesOutput {
+  /** The IDs of the sent messages, in the same order as the input messages. */
+  readonly messageIds: readonly string[];
+}
+
+export interface SetClientConfigInput {
+  /** The client configuration, the `endpoint` is always set from the endpoint the client is created for. */
+  readonly config: SQSClientConfig;
+
+  /** The SQS endpoint URL the configuration applies to, if not specified it applies to all endpoints. */
+  readonly endpoint?: string;
+}
+
+export interface SetClientInput extends BaseInput {
+  /** The client to use for the endpoint. It is not destroyed by {@link SqsHelper.dispose}. */
+  readonly client: SQSClient;
+}
+
+/**
+ * The metadata of an SNS notification, i.e. the notification without its `Message`.
+ * @see https://docs.aws.amazon.com/sns/latest/dg/sns-message-and-json-formats.html#http-notification-json
+ */
+export interface SnsEnvelope {
+  readonly MessageAttributes?: Readonly<
+    Record<string, { readonly Type: string; readonly Value: string }>
+  >;
+  readonly MessageId: string;
+  readonly Signature?: string;
+  readonly SignatureVersion?: string;
+  readonly SigningCertURL?: string;
+  readonly Subject?: string;
+  readonly Timestamp: string;
+  readonly TopicArn: string;
+  readonly Type: string;
+  readonly UnsubscribeURL?: string;
+}
+
+export interface SweepTemporaryQueuesInput extends BaseInput {
+  /** The minimum age in milliseconds of the queues to delete, based on their `CreatedTimestamp`. */
+  readonly olderThan: number;
+
+  /**
+   * The prefix of the queue names.
+   * @default "temp-"
+   */
+  readonly prefix?: string;
+}
+
+export interface SweepTemporaryQueuesOutput {
+  /** The URLs of the deleted queues. */
+  readonly queueUrls: readonly string[];
+}
+
+/** A temporary queue created by {@link SqsHelper.createTemporaryQueue}, deleted with `await using`. */
+export interface TemporaryQueue extends QueueIdentifiers, AsyncDisposable {
+  /** The dead-letter queue, if requested. */
+  readonly deadLetterQueue?: QueueIdentifiers;
+
+  /** Deletes the queue and its dead-letter queue. Queues that no longer exist are ignored. */
+  delete(): Promise<void>;
+}
+
+/**
+ * The action performed by {@link SqsHelper.upsertQueue}:
+ * - `create`: the queue did not exist and was created.
+ * - `none`: the queue exists with the same attributes and tags.
+ * - `recreate`: the queue exists with different attributes or tags and was re-created.
+ */
+export type UpsertQueueAction = "create" | "none" | "recreate";
+
+export interface UpsertQueueDryRunInput extends UpsertQueueInput {
+  /** Indicates that the queue should only be compared, without creating or deleting it. */
+  readonly dryRun: true;
+}
+
+export interface UpsertQueueDryRunOutput
+  extends Omit<UpsertQueueOutput, "queueUrl"> {
+  /** The SQS queue url, `undefined` if the queue does not exist. */
+  readonly queueUrl: string | undefined;
+}
+
 export interface UpsertQueueInput extends BaseInput {
   /** The {@link CreateQueueCommand}. */
   readonly command: CreateQueueCommand;
 
-  /** Indicates whether the queue should be re-created if the attributes differ. */
+  /** Indicates whether the queue should be re-created if the attributes or tags differ. */
   readonly force?: boolean;
 }
 
 export interface UpsertQueueOutput {
+  /** The action performed (or that would be performed in dry-run mode). */
+  readonly action: UpsertQueueAction;
+
+  /** The differences between the expected and the actual attributes and tags of an existing queue. */
+  readonly diff: readonly QueueDiff[];
+
   /** The SQS queue url. */
   readonly queueUrl: string;
 }
 
+export interface UpsertQueueWithDeadLetterQueueInput
+  extends Omit<UpsertQueueInput, "command"> {
+  /** The {@link CreateQueueCommand} of the source queue, its `RedrivePolicy` is set to the dead-letter queue. */
+  readonly command: CreateQueueCommand;
+
+  /** The dead-letter queue. */
+  readonly deadLetterQueue: {
+    /**
+     * The {@link CreateQueueCommand} of the dead-letter queue.
+     * If not specified, the queue is named after the source queue with a `-dlq` suffix, with the same type and tags.
+     */
+    readonly command?: CreateQueueCommand;
+
+    /** The number of receives after which a message is moved to the dead-letter queue. */
+    readonly maxReceiveCount: number;
+  };
+}
+
+export interface UpsertQueueWithDeadLetterQueueOutput {
+  /** The dead-letter queue. */
+  readonly deadLetterQueue: UpsertedQueue;
+
+  /** The source queue. */
+  readonly queue: UpsertedQueue;
+}
+
+/** A queue created or updated by {@link SqsHelper.upsertQueueWithDeadLetterQueue}. */
+export type UpsertedQueue = QueueIdentifiers &
+  Omit<UpsertQueueOutput, "queueUrl">;
+
 interface BaseInput {
   /** The SQS endpoint URL. */
   readonly endpoint: string;
@@ -83,6 +517,16 @@ interface QueueInput extends BaseInput {
   readonly queueUrl: string;
 }
 
+/**
+ * The SQS batch limits.
+ * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/APIReference/API_SendMessageBatch.html
+ */
+const MAX_BATCH_ENTRIES = 10;
+const MAX_BATCH_BYTES = 262144;
+
+/** The max number of queues listed per page, SQS only returns a `NextToken` when `MaxResults` is set. */
+const MAX_LIST_QUEUES_RESULTS = 1000;
+
 /**
  * The SQS default attributes.
  * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/APIReference/API_CreateQueue.html#API_CreateQueue_RequestParameters
@@ -95,40 +539,361 @@ const DEFAULT_ATTRIBUTES = {
   VisibilityTimeout: "30",
 } as const;
 
+/**
+ * The SQS default attributes of FIFO queues.
+ * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/APIReference/API_CreateQueue.html#API_CreateQueue_RequestParameters
+ */
+const DEFAULT_FIFO_ATTRIBUTES = {
+  ContentBasedDeduplication: "false",
+  DeduplicationScope: "queue",
+  FifoQueue: "true",
+  FifoThroughputLimit: "perQueue",
+} as const;
+
+/**
+ * The attributes that can be set when creating a queue.
+ * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/APIReference/API_CreateQueue.html#API_CreateQueue_RequestParameters
+ */
+const QUEUE_ATTRIBUTE_NAMES = [
+  "DelaySeconds",
+  "KmsDataKeyReusePeriodSeconds",
+  "KmsMasterKeyId",
+  "MaximumMessageSize",
+  "MessageRetentionPeriod",
+  "Policy",
+  "ReceiveMessageWaitTimeSeconds",
+  "RedriveAllowPolicy",
+  "RedrivePolicy",
+  "SqsManagedSseEnabled",
+  "VisibilityTimeout",
+] as const;
+
+/** The attributes that can be set when creating a FIFO queue. */
+const FIFO_QUEUE_ATTRIBUTE_NAMES = [
+  "ContentBasedDeduplication",
+  "DeduplicationScope",
+  "FifoQueue",
+  "FifoThroughputLimit",
+] as const;
+
+const DEFAULT_TEMPORARY_QUEUE_PREFIX = "temp-";
+
+/** The attributes with JSON values. */
+const JSON_QUEUE_ATTRIBUTE_NAMES = new Set<string>([
+  "Policy",
+  "RedriveAllowPolicy",
+  "RedrivePolicy",
+]);
+
+/** The attributes whose defaults vary across SQS implementations. These are only compared when specified. */
+const IMPLEMENTATION_DEFINED_ATTRIBUTE_NAMES = new Set<string>([
+  "KmsDataKeyReusePeriodSeconds",
+  "SqsManagedSseEnabled",
+]);
+
 /** Provides utility methods for AWS SQS. */
 export class SqsHelper {
   static #clients = new Map<string, SQSClient>();
+  static #config: SQSClientConfig = {};
+  static #endpointConfigs = new Map<string, SQSClientConfig>();
+  static #injectedClients = new Set<SQSClient>();
 
   private constructor() {}
 
-  /** Gets messages from an SQS queue parsed as JSON. */
+  /** Destroys the cached clients. Clients set with {@link SqsHelper.setClient} are only removed from the cache. */
+  static async dispose(): Promise<void> {
+    for (const client of SqsHelper.#clients.values()) {
+      if (!SqsHelper.#injectedClients.has(client)) {
+        client.destroy();
+      }
+    }
+
+    SqsHelper.#clients.clear();
+    SqsHelper.#injectedClients.clear();
+  }
+
+  /** Disposes the helper with `await using`. See {@link SqsHelper.dispose}. */
+  static async [Symbol.asyncDispose](): Promise<void> {
+    await SqsHelper.dispose();
+  }
+
+  /**
+   * Gets messages from an SQS queue decoded by a {@link Codec}.
+   * Messages that can't be decoded are returned in `invalid`, unless `strict` is enabled.
+   */
+  static async getDecodedMessages<T>(
+    input: GetDecodedMessagesInput<T>,
+  ): Promise<GetDecodedMessagesOutput<T>> {
+    const { codec, strict, ...rest } = input;
+
+    const res = await SqsHelper.getMessages(rest);
+
+    const messages: DecodedMessage<T>[] = [];
+    const invalid: InvalidJsonMessage[] = [];
+    for (const msg of res.messages) {
+      try {
+        messages.push({
+          ...msg,
+          Value: codec.decode(
+            msg.Body!,
+            SqsMessageAttributes.decode(msg.MessageAttributes),
+          ),
+        });
+      } catch (error) {
+        if (strict) {
+          throw error;
+        }
+        invalid.push({ error, message: msg });
+      }
+    }
+
+    return { invalid, messages };
+  }
+
+  /**
+   * Gets messages from an SQS queue parsed as JSON.
+   * Messages that can't be parsed or fail validation are returned in `invalid`, unless `strict` is enabled.
+   */
   static async getJsonMessages<T>(
-    input: GetJsonMessagesInput,
+    input: GetJsonMessagesInput<T>,
   ): Promise<GetJsonMessagesOutput<T>> {
-    const res = await SqsHelper.getMessages(input);
+    const { envelope, strict, validator, ...rest } = input;
+
+    const res = await SqsHelper.getMessages(rest);
+
+    const messages: JsonMessage<T>[] = [];
+    const invalid: InvalidJsonMessage[] = [];
+    for (const msg of res.messages) {
+      try {
+        messages.push(SqsHelper.#parseJsonMessage(msg, envelope, validator));
+      } catch (error) {
+        if (strict) {
+          throw error;
+        }
+        invalid.push({ error, message: msg });
+      }
+    }
+
+    return { invalid, messages };
+  }
+
+  /**
+   * Streams messages from an SQS queue parsed as JSON. See {@link SqsHelper.messages}.
+   * Messages that can't be parsed or fail validation are deleted without being yielded, unless `strict` is enabled, so
+   * that they're not received again by the stream.
+   */
+  static async *jsonMessages<T>(
+    input: JsonMessagesInput<T>,
+  ): AsyncGenerator<AckableMessage<JsonMessage<T>>, void, undefined> {
+    const { autoAck = true, envelope, strict, validator, ...rest } = input;
+
+    for await (const msg of SqsHelper.messages({ ...rest, autoAck: false })) {
+      let message: JsonMessage<T>;
+      try {
+        message = SqsHelper.#parseJsonMessage(msg, envelope, validator);
+      } catch (error) {
+        if (strict) {
+          throw error;
+        }
+        await msg.ack();
+        continue;
+      }
+
+      yield { ...message, ack: msg.ack };
+      if (autoAck) {
+        await msg.ack();
+      }
+    }
+  }
+
+  /**
+   * Streams messages from an SQS queue with long polling, until the `abortSignal` is aborted or the consumer stops.
+   * Messages are only received when the consumer requests them. When the consumer stops, e.g. with `break`, the current
+   * message, unless acknowledged, and the received messages that were not consumed are made visible again.
+   */
+  static async *messages(
+    input: MessagesInput,
+  ): AsyncGenerator<AckableMessage, void, undefined> {
+    const {
+      abortSignal,
+      autoAck = true,
+      batchSize = 10,
+      endpoint,
+      queueUrl,
+      visibilityTimeout,
+      waitTime = 20,
+    } = input;
+
+    if (batchSize < 1 || batchSize > 10) {
+      throw new Error("Batch size must be between 1 and 10.");
+    }
+
+    const client = SqsHelper.#getClient(endpoint);
+
+    const buffer: Message[] = [];
+    // the message yielded to the consumer, until acknowledged
+    let current: Message | undefined;
+    try {
+      while (!abortSignal?.aborted) {
+        // receive messages once the previous ones are consumed
+        if (!buffer.length) {
+          try {
+            const { Messages = [] } = await client.send(
+              new ReceiveMessageCommand({
+                MaxNumberOfMessages: batchSize,
+                MessageAttributeNames: ["All"],
+                MessageSystemAttributeNames: ["All"],
+                QueueUrl: queueUrl,
+                VisibilityTimeout: visibilityTimeout,
+                WaitTimeSeconds: waitTime,
+              }),
+              { abortSignal },
+            );
+            buffer.push(...Messages);
+          } catch (error) {
+            if (error instanceof Error && error.name === "AbortError") {
+              return;
+            }
+            throw error;
+          }
+          continue;
+        }
+
+        const message = buffer.shift()!;
+        let acked = false;
+        const ack = async (): Promise<void> => {
+          if (acked) {
+            return;
+          }
+          acked = true;
+          if (current === message) {
+            current = undefined;
+          }
+          await client.send(
+            new DeleteMessageCommand({
+              QueueUrl: queueUrl,
+              ReceiptHandle: message.ReceiptHandle,
+            }),
+          );
+        };
+
+        current = message;
+        yield { ...message, ack };
+        if (autoAck) {
+          await ack();
+        }
+        current = undefined;
+      }
+    } finally {
+      // make the messages that were not consumed visible again (best effort)
+      await SqsHelper.#releaseMessages(
+        client,
+        queueUrl,
+        current ? [current, ...buffer] : buffer,
+      ).catch(() => {});
+    }
+  }
 
+  /** Gets the approximate number of messages of an SQS queue by state. */
+  static async getQueueStats(
+    input: GetQueueStatsInput,
+  ): Promise<GetQueueStatsOutput> {
+    const { endpoint, queueUrl } = input;
+
+    const { Attributes = {} } = await SqsHelper.#getClient(endpoint).send(
+      new GetQueueAttributesCommand({
+        AttributeNames: [
+          "ApproximateNumberOfMessages",
+          "ApproximateNumberOfMessagesDelayed",
+          "ApproximateNumberOfMessagesNotVisible",
+        ],
+        QueueUrl: queueUrl,
+      }),
+    );
     return {
-      messages: res.messages.map((msg) => ({
-        ...msg,
-        Object: JSON.parse(msg.Body!),
-      })),
+      delayed: Number(Attributes.ApproximateNumberOfMessagesDelayed ?? 0),
+      inFlight: Number(Attributes.ApproximateNumberOfMessagesNotVisible ?? 0),
+      visible: Number(Attributes.ApproximateNumberOfMessages ?? 0),
+    };
+  }
+
+  /**
+   * Receives up to 10 visible messages of an SQS queue, and releases them at once, to get the age of the oldest one.
+   * SQS has no attribute with the age of the oldest message, so this is not read-only:
+   * - the `ApproximateReceiveCount` of each received message increases, which moves it to the dead-letter queue of a
+   *   queue with a redrive policy once `maxReceiveCount` is reached;
+   * - consumers may not receive the messages until they're released;
+   * - the oldest received message may not be the oldest message of the queue.
+   */
+  static async receiveOldestMessageAge(
+    input: ReceiveOldestMessageAgeInput,
+  ): Promise<ReceiveOldestMessageAgeOutput> {
+    const { endpoint, queueUrl } = input;
+
+    const { Messages = [] } = await SqsHelper.#getClient(endpoint).send(
+      new ReceiveMessageCommand({
+        MaxNumberOfMessages: 10,
+        MessageSystemAttributeNames: ["SentTimestamp"],
+        QueueUrl: queueUrl,
+        VisibilityTimeout: 0,
+        WaitTimeSeconds: 0,
+      }),
+    );
+    if (!Messages.length) {
+      return { receivedMessages: 0 };
+    }
+
+    const oldest = Math.min(
+      ...Messages.map((m) => Number(m.Attributes!.SentTimestamp)),
+    );
+    return {
+      oldestMessageAge: Math.max(0, Math.floor((Date.now() - oldest) / 1000)),
+      receivedMessages: Messages.length,
     };
   }
 
-  /** Gets messages from an SQS queue. */
+  /**
+   * Gets messages from an SQS queue.
+   * Messages of FIFO queues are returned in order within each message group.
+   */
   static async getMessages(
     input: GetMessagesInput,
   ): Promise<GetMessagesOutput> {
-    const { abortSignal, batchSize, endpoint, keep, queueUrl } = input;
+    const {
+      abortSignal,
+      batchSize,
+      endpoint,
+      keep,
+      maxPayloadSize,
+      maxWaitTime,
+      queueUrl,
+      visibilityTimeout = 0,
+    } = input;
 
     if (batchSize !== undefined && batchSize < 1) {
       throw new Error("Batch size must be equal or greater than 1.");
     }
 
     const client = SqsHelper.#getClient(endpoint);
+    const deadline =
+      maxWaitTime === undefined ? undefined : Date.now() + maxWaitTime * 1000;
 
     const messages: Message[] = [];
-    const receiveMessages = async () => {
+    let payloadSize = 0;
+    let payloadFull = false;
+    const getWaitTimeSeconds = (): number => {
+      if (!batchSize) {
+        return 0;
+      }
+
+      // wait for the first message regardless of the deadline
+      if (deadline === undefined || !messages.length) {
+        return 20;
+      }
+
+      return Math.min(20, Math.ceil(Math.max(0, deadline - Date.now()) / 1000));
+    };
+    const receiveMessages = async () => {
       const res = await client.send(
         new ReceiveMessageCommand({
           /**
@@ -139,20 +904,145 @@ export class SqsHelper {
             batchSize === undefined
               ? 10
               : Math.min(10, batchSize - messages.length),
+          MessageAttributeNames: ["All"],
           MessageSystemAttributeNames: ["All"],
           QueueUrl: queueUrl,
-          // make polled messages immediately available for polling again
-          VisibilityTimeout: 0,
+          // by default, make polled messages immediately available for polling again
+          VisibilityTimeout: visibilityTimeout,
           /*
            * `20s` is the max value.
            * See: https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-short-and-long-polling.html#sqs-long-polling
            */
-          WaitTimeSeconds: batchSize ? 20 : 0,
+          WaitTimeSeconds: getWaitTimeSeconds(),
         }),
         { abortSignal },
       );
 
-      if (res.Messages?.length && !keep) {
+      return res.Messages ?? [];
+    };
+
+    try {
+      do {
+        const accepted: Message[] = [];
+        const released: Message[] = [];
+        for (const msg of await receiveMessages()) {
+          // a message received again replaces the previous one (i.e. it has a newer receipt handle)
+          const index = messages.findIndex(
+            (m) => m.MessageId === msg.MessageId,
+          );
+          if (index !== -1) {
+            messages[index] = msg;
+            accepted.push(msg);
+            continue;
+          }
+
+          const size = SqsHelper.#getMessageSize({
+            Id: msg.MessageId,
+            MessageAttributes: msg.MessageAttributes,
+            MessageBody: msg.Body,
+          });
+          if (
+            maxPayloadSize !== undefined &&
+            messages.length &&
+            payloadSize + size > maxPayloadSize
+          ) {
+            released.push(msg);
+            payloadFull = true;
+            continue;
+          }
+
+          messages.push(msg);
+          accepted.push(msg);
+          payloadSize += size;
+        }
+
+        await SqsHelper.#releaseMessages(
+          client,
+          queueUrl,
+          released,
+          abortSignal,
+        );
+
+        if (accepted.length && !keep) {
+          await client.send(
+            new DeleteMessageBatchCommand({
+              QueueUrl: queueUrl,
+              Entries: accepted.map((msg) => ({
+                Id: msg.MessageId,
+                ReceiptHandle: msg.ReceiptHandle,
+              })),
+            }),
+            { abortSignal },
+          );
+        }
+      } while (
+        batchSize !== undefined &&
+        messages.length < batchSize &&
+        !payloadFull &&
+        (deadline === undefined || Date.now() < deadline || !messages.length)
+      );
+    } catch (error) {
+      // make the kept messages visible again, as they're not returned (best effort)
+      if (keep) {
+        await SqsHelper.#releaseMessages(client, queueUrl, messages).catch(
+          () => {},
+        );
+      }
+      throw error;
+    }
+
+    // FIFO queue messages are sorted by sequence number to preserve the order within each message group
+    if (messages.every((m) => m.Attributes?.SequenceNumber !== undefined)) {
+      messages.sort((a, b) => {
+        const diff =
+          BigInt(a.Attributes!.SequenceNumber!) -
+          BigInt(b.Attributes!.SequenceNumber!);
+        return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+      });
+    }
+
+    return { messages };
+  }
+
+  /**
+   * Clears all the messages in an SQS queue, including the in-flight and delayed ones once they become visible.
+   * @throws {Error} if the queue is not empty within the `timeout`.
+   */
+  static async clearSqsQueue(input: CleanQueueInput): Promise<void> {
+    const { endpoint, purge, queueUrl, timeout = 30000 } = input;
+
+    const client = SqsHelper.#getClient(endpoint);
+    const deadline = Date.now() + timeout;
+
+    if (purge) {
+      try {
+        await client.send(
+          new PurgeQueueCommand({
+            QueueUrl: queueUrl,
+          }),
+        );
+      } catch (error) {
+        // only one purge is allowed every 60 seconds: delete the messages instead
+        if (!(error instanceof PurgeQueueInProgress)) {
+          throw error;
+        }
+      }
+    }
+
+    for (;;) {
+      const res = await client.send(
+        new ReceiveMessageCommand({
+          MaxNumberOfMessages: 10,
+          QueueUrl: queueUrl,
+          /*
+           * In localstack, empty message receives due to eventual consistency shouldn't be a problem.
+           * Thus, long polling is not used.
+           */
+          WaitTimeSeconds: 0,
+        }),
+      );
+
+      if (res.Messages?.length) {
         await client.send(
           new DeleteMessageBatchCommand({
             QueueUrl: queueUrl,
@@ -161,60 +1051,210 @@ export class SqsHelper {
               ReceiptHandle: msg.ReceiptHandle,
             })),
           }),
-          { abortSignal },
         );
+        continue;
       }
 
-      return res.Messages ?? [];
+      // no visible messages: wait for the in-flight and delayed ones
+      const stats = await SqsHelper.getQueueStats({ endpoint, queueUrl });
+      if (!stats.delayed && !stats.inFlight && !stats.visible) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `The queue could not be cleared within ${timeout} ms: ${JSON.stringify(stats)}.`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  /**
+   * Creates a queue with a unique name, optionally with a dead-letter queue.
+   * The queues are deleted with `await using` or {@link TemporaryQueue.delete}.
+   */
+  static async createTemporaryQueue(
+    input: CreateTemporaryQueueInput,
+  ): Promise<TemporaryQueue> {
+    const {
+      attributes = {},
+      deadLetterQueue,
+      endpoint,
+      fifo = false,
+      prefix = DEFAULT_TEMPORARY_QUEUE_PREFIX,
+      tags,
+    } = input;
+
+    const name = `${prefix}${randomUUID()}`;
+    const command = new CreateQueueCommand({
+      Attributes: { ...attributes, ...(fifo ? { FifoQueue: "true" } : {}) },
+      QueueName: `${name}${fifo ? ".fifo" : ""}`,
+      tags,
+    });
+    // the upserted queues also include the upsert action and diff
+    const toIdentifiers = (q: QueueIdentifiers): QueueIdentifiers => ({
+      arn: q.arn,
+      name: q.name,
+      url: q.url,
+    });
+
+    const deleteQueue = async (queueUrl: string): Promise<void> => {
+      try {
+        await SqsHelper.send({
+          command: new DeleteQueueCommand({ QueueUrl: queueUrl }),
+          endpoint,
+        });
+      } catch (error) {
+        if (!(error instanceof QueueDoesNotExist)) {
+          throw error;
+        }
+      }
     };
 
-    do {
-      messages.push(...(await receiveMessages()));
-    } while (batchSize !== undefined && messages.length < batchSize);
+    let queue: QueueIdentifiers;
+    let dlq: QueueIdentifiers | undefined;
+    if (deadLetterQueue) {
+      const output = await SqsHelper.upsertQueueWithDeadLetterQueue({
+        command,
+        deadLetterQueue,
+        endpoint,
+      });
+      queue = toIdentifiers(output.queue);
+      dlq = toIdentifiers(output.deadLetterQueue);
+    } else {
+      queue = toIdentifiers(
+        await SqsHelper.#upsertQueueWithArn(endpoint, command),
+      );
+    }
 
-    return { messages };
+    const remove = async (): Promise<void> => {
+      await deleteQueue(queue.url);
+      if (dlq) {
+        await deleteQueue(dlq.url);
+      }
+    };
+
+    return {
+      ...queue,
+      ...(dlq ? { deadLetterQueue: dlq } : {}),
+      delete: remove,
+      [Symbol.asyncDispose]: remove,
+    };
   }
 
-  /** Clears all the messages in an SQS queue. */
-  static async clearSqsQueue(input: CleanQueueInput): Promise<void> {
-    const { endpoint, purge, queueUrl } = input;
+  /** Deletes messages from an SQS queue. */
+  static async deleteMessages(input: DeleteMessagesInput): Promise<void> {
+    const { endpoint, messages, queueUrl } = input;
 
     const client = SqsHelper.#getClient(endpoint);
 
-    if (purge) {
-      await client.send(
-        new PurgeQueueCommand({
+    /**
+     * `10` is the max number of entries.
+     * See: https://docs.aws.amazon.com/AWSSimpleQueueService/latest/APIReference/API_DeleteMessageBatch.html#API_DeleteMessageBatch_RequestParameters
+     */
+    for (let i = 0; i < messages.length; i += 10) {
+      const { Failed } = await client.send(
+        new DeleteMessageBatchCommand({
           QueueUrl: queueUrl,
+          Entries: messages.slice(i, i + 10).map((msg) => ({
+            Id: msg.MessageId,
+            ReceiptHandle: msg.ReceiptHandle,
+          })),
         }),
       );
-    } else {
-      let res: ReceiveMessageResult;
-      do {
-        res = await client.send(
+
+      if (Failed?.length) {
+        throw new Error(
+          `Failed to delete messages: ${Failed.map((f) => `${f.Id} (${f.Code})`).join(", ")}.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Moves messages from a queue, usually a dead-letter queue, to another queue keeping their body and attributes.
+   * @throws {Error} if no `targetQueueUrl` is specified and the queue is not the dead-letter queue of exactly one queue.
+   */
+  static async redriveMessages(
+    input: RedriveMessagesInput,
+  ): Promise<RedriveMessagesOutput> {
+    const {
+      endpoint,
+      filter = () => true,
+      queueUrl,
+      visibilityTimeout = 30,
+    } = input;
+
+    const client = SqsHelper.#getClient(endpoint);
+
+    let { targetQueueUrl } = input;
+    if (!targetQueueUrl) {
+      const { queueUrls = [] } = await client.send(
+        new ListDeadLetterSourceQueuesCommand({ QueueUrl: queueUrl }),
+      );
+      if (queueUrls.length !== 1) {
+        throw new Error(
+          `The target queue cannot be determined: the queue '${queueUrl}' is the dead-letter queue of ${queueUrls.length} queues.`,
+        );
+      }
+      [targetQueueUrl] = queueUrls;
+    }
+    // the moved messages would be received again, endlessly
+    if (targetQueueUrl === queueUrl) {
+      throw new Error(
+        `The messages cannot be moved to the queue '${queueUrl}' they are moved from.`,
+      );
+    }
+
+    let moved = 0;
+    const skipped: Message[] = [];
+    try {
+      for (;;) {
+        const { Messages = [] } = await client.send(
           new ReceiveMessageCommand({
             MaxNumberOfMessages: 10,
+            MessageAttributeNames: ["All"],
+            MessageSystemAttributeNames: ["MessageGroupId"],
             QueueUrl: queueUrl,
-            /*
-             * In localstack, empty message receives due to eventual consistency shouldn't be a problem.
-             * Thus, long polling is not used.
-             */
+            VisibilityTimeout: visibilityTimeout,
             WaitTimeSeconds: 0,
           }),
         );
+        if (!Messages.length) {
+          break;
+        }
 
-        if (res.Messages?.length) {
-          await client.send(
-            new DeleteMessageBatchCommand({
-              QueueUrl: queueUrl,
-              Entries: res.Messages.map((msg) => ({
-                Id: msg.MessageId,
-                ReceiptHandle: msg.ReceiptHandle,
-              })),
-            }),
-          );
+        const messages = Messages.filter((msg) => filter(msg));
+        skipped.push(...Messages.filter((msg) => !messages.includes(msg)));
+        if (!messages.length) {
+          continue;
         }
-      } while (res.Messages?.length);
+
+        await SqsHelper.sendMessages({
+          endpoint,
+          messages: messages.map(
+            ({ Attributes, Body, MessageAttributes, MessageId }) => ({
+              MessageAttributes,
+              MessageBody: Body,
+              // the original deduplication ID may still be within the deduplication interval of the target queue
+              ...(Attributes?.MessageGroupId
+                ? {
+                    MessageDeduplicationId: MessageId,
+                    MessageGroupId: Attributes.MessageGroupId,
+                  }
+                : {}),
+            }),
+          ),
+          queueUrl: targetQueueUrl,
+        });
+        await SqsHelper.deleteMessages({ endpoint, messages, queueUrl });
+        moved += messages.length;
+      }
+    } finally {
+      await SqsHelper.#releaseMessages(client, queueUrl, skipped);
     }
+
+    return { moved, skipped: skipped.length, targetQueueUrl };
   }
 
   /** A convenience method for sending SQS commands. */
@@ -227,11 +1267,223 @@ export class SqsHelper {
     return output;
   }
 
-  /** Creates or updates a queue. */
+  /** Sets the client to use for an endpoint, e.g. a client with custom middleware. */
+  static setClient(input: SetClientInput): void {
+    const { client, endpoint } = input;
+
+    SqsHelper.#removeClient(endpoint);
+    SqsHelper.#clients.set(endpoint, client);
+    SqsHelper.#injectedClients.add(client);
+  }
+
+  /**
+   * Sets the configuration of the clients for an endpoint, or for all endpoints if none is specified.
+   * The endpoint configuration is merged over the global one, and the affected cached clients are re-created.
+   * Clients set with {@link SqsHelper.setClient} are kept when the global configuration changes.
+   */
+  static setClientConfig(input: SetClientConfigInput): void {
+    const { config, endpoint } = input;
+
+    if (endpoint === undefined) {
+      SqsHelper.#config = config;
+      for (const [cachedEndpoint, client] of [...SqsHelper.#clients]) {
+        if (!SqsHelper.#injectedClients.has(client)) {
+          SqsHelper.#removeClient(cachedEndpoint);
+        }
+      }
+    } else {
+      SqsHelper.#endpointConfigs.set(endpoint, config);
+      SqsHelper.#removeClient(endpoint);
+    }
+  }
+
+  /**
+   * Deletes the queues left over by {@link SqsHelper.createTemporaryQueue}, i.e. the ones with the prefix that are older
+   * than the specified age.
+   */
+  static async sweepTemporaryQueues(
+    input: SweepTemporaryQueuesInput,
+  ): Promise<SweepTemporaryQueuesOutput> {
+    const {
+      endpoint,
+      olderThan,
+      prefix = DEFAULT_TEMPORARY_QUEUE_PREFIX,
+    } = input;
+
+    const client = SqsHelper.#getClient(endpoint);
+
+    const candidates: string[] = [];
+    let nextToken: string | undefined;
+    do {
+      const { NextToken, QueueUrls = [] } = await client.send(
+        new ListQueuesCommand({
+          MaxResults: MAX_LIST_QUEUES_RESULTS,
+          NextToken: nextToken,
+          QueueNamePrefix: prefix,
+        }),
+      );
+      candidates.push(...QueueUrls);
+      nextToken = NextToken;
+    } while (nextToken);
+
+    const queueUrls: string[] = [];
+    for (const queueUrl of candidates) {
+      try {
+        const { Attributes = {} } = await client.send(
+          new GetQueueAttributesCommand({
+            AttributeNames: ["CreatedTimestamp"],
+            QueueUrl: queueUrl,
+          }),
+        );
+        // the timestamp is in seconds
+        const age = Date.now() - Number(Attributes.CreatedTimestamp) * 1000;
+        if (age < olderThan) {
+          continue;
+        }
+
+        await client.send(new DeleteQueueCommand({ QueueUrl: queueUrl }));
+        queueUrls.push(queueUrl);
+      } catch (error) {
+        // the queue has been deleted in the meantime
+        if (!(error instanceof QueueDoesNotExist)) {
+          throw error;
+        }
+      }
+    }
+
+    return { queueUrls };
+  }
+
+  /** Sends messages with bodies encoded by a {@link Codec} to an SQS queue. See {@link SqsHelper.sendMessages}. */
+  static async sendEncodedMessages<T>(
+    input: SendEncodedMessagesInput<T>,
+  ): Promise<SendEncodedMessagesOutput> {
+    const { codec, messages, ...rest } = input;
+
+    return await SqsHelper.sendMessages({
+      ...rest,
+      messages: messages.map(({ MessageAttributes, Value, ...entry }) => {
+        const { attributes, body } = codec.encode(Value);
+        return {
+          ...entry,
+          ...(attributes || MessageAttributes
+            ? {
+                MessageAttributes: {
+                  ...(attributes && SqsMessageAttributes.encode(attributes)),
+                  ...MessageAttributes,
+                },
+              }
+            : {}),
+          MessageBody: body,
+        };
+      }),
+    });
+  }
+
+  /** Sends messages with JSON bodies to an SQS queue. See {@link SqsHelper.sendMessages}. */
+  static async sendJsonMessages<T>(
+    input: SendJsonMessagesInput<T>,
+  ): Promise<SendJsonMessagesOutput> {
+    const { messages, ...rest } = input;
+
+    return await SqsHelper.sendMessages({
+      ...rest,
+      messages: messages.map(({ Object, ...entry }) => ({
+        ...entry,
+        MessageBody: JSON.stringify(Object),
+      })),
+    });
+  }
+
+  /**
+   * Sends messages to an SQS queue.
+   * The messages are sent in batches within the SQS limits, and the ones that fail due to a service error are retried.
+   */
+  static async sendMessages(
+    input: SendMessagesInput,
+  ): Promise<SendMessagesOutput> {
+    const { endpoint, maxAttempts = 3, messages, queueUrl } = input;
+
+    const client = SqsHelper.#getClient(endpoint);
+
+    // split messages into batches, the entry ID is the index of the message
+    const entries: SendMessageBatchRequestEntry[] = messages.map((msg, i) => ({
+      ...(typeof msg === "string" ? { MessageBody: msg } : msg),
+      Id: i.toString(),
+    }));
+    const batches: SendMessageBatchRequestEntry[][] = [];
+    let batchBytes = 0;
+    for (const entry of entries) {
+      const bytes = SqsHelper.#getMessageSize(entry);
+      if (bytes > MAX_BATCH_BYTES) {
+        throw new Error(
+          `Message ${entry.Id} is ${bytes} bytes, which exceeds the maximum of ${MAX_BATCH_BYTES} bytes.`,
+        );
+      }
+
+      const batch = batches.at(-1);
+      if (
+        !batch ||
+        batch.length === MAX_BATCH_ENTRIES ||
+        batchBytes + bytes > MAX_BATCH_BYTES
+      ) {
+        batches.push([entry]);
+        batchBytes = bytes;
+      } else {
+        batch.push(entry);
+        batchBytes += bytes;
+      }
+    }
+
+    // send batches, retry entries that failed due to a service error
+    const messageIds: string[] = [];
+    for (let batch of batches) {
+      for (let attempt = 1; batch.length; ++attempt) {
+        const { Failed = [], Successful = [] } = await client.send(
+          new SendMessageBatchCommand({
+            Entries: batch,
+            QueueUrl: queueUrl,
+          }),
+        );
+
+        for (const { Id, MessageId } of Successful) {
+          messageIds[parseInt(Id!)] = MessageId!;
+        }
+
+        const fatal = Failed.filter(
+          (f) => f.SenderFault || attempt >= maxAttempts,
+        );
+        if (fatal.length) {
+          throw new Error(
+            `Failed to send messages: ${fatal.map((f) => `${f.Id} (${f.Code}: ${f.Message})`).join(", ")}.`,
+          );
+        }
+
+        batch = batch.filter((entry) => Failed.some((f) => f.Id === entry.Id));
+        if (batch.length) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, 100 * 2 ** (attempt - 1)),
+          );
+        }
+      }
+    }
+
+    return { messageIds };
+  }
+
+  /**
+   * Creates or updates a queue.
+   * An existing queue is compared against the attributes (or their defaults) and tags of the {@link CreateQueueCommand}.
+   */
+  static async upsertQueue(
+    input: UpsertQueueDryRunInput,
+  ): Promise<UpsertQueueDryRunOutput>;
+  static async upsertQueue(input: UpsertQueueInput): Promise<UpsertQueueOutput>;
   static async upsertQueue(
-    input: UpsertQueueInput,
-  ): Promise<UpsertQueueOutput> {
+    input: UpsertQueueInput | UpsertQueueDryRunInput,
+  ): Promise<UpsertQueueOutput | UpsertQueueDryRunOutput> {
     const { command, endpoint, force } = input;
+    const dryRun = "dryRun" in input && input.dryRun;
 
     const client = this.#getClient(endpoint);
 
@@ -244,71 +1496,399 @@ export class SqsHelper {
       return QueueUrl!;
     };
 
-    let queueUrl!: string;
+    let queueUrl: string;
+    let diff: readonly QueueDiff[];
     try {
       queueUrl = await getQueueUrl();
+      diff = await SqsHelper.#diffQueue(client, queueUrl, command);
+    } catch (error) {
+      if (!(error instanceof QueueDoesNotExist)) {
+        throw error;
+      }
 
-      // ensure existing queue has same attributes
-      const { Attributes: actualAttributes } = await client.send(
-        new GetQueueAttributesCommand({
-          AttributeNames: [
-            "DelaySeconds",
-            "MaximumMessageSize",
-            "MessageRetentionPeriod",
-            "Policy",
-            "ReceiveMessageWaitTimeSeconds",
-            "VisibilityTimeout",
-          ],
-          QueueUrl: queueUrl,
+      // no queue: create it
+      if (dryRun) {
+        return { action: "create", diff: [], queueUrl: undefined };
+      }
+      await client.send(command);
+      return { action: "create", diff: [], queueUrl: await getQueueUrl() };
+    }
+
+    // queue with same attributes: no-op
+    if (!diff.length) {
+      return { action: "none", diff, queueUrl };
+    }
+
+    if (dryRun) {
+      return { action: "recreate", diff, queueUrl };
+    }
+
+    // queue with different attributes: re-create it if force is enabled
+    if (!force) {
+      throw new QueueNameExists({
+        $metadata: {},
+        message: `Queue '${command.input.QueueName}' already exists with different attributes or tags: ${JSON.stringify(diff)}`,
+      });
+    }
+    await client.send(new DeleteQueueCommand({ QueueUrl: queueUrl }));
+    await client.send(command);
+    return { action: "recreate", diff, queueUrl: await getQueueUrl() };
+  }
+
+  /**
+   * Creates or updates a queue and its dead-letter queue, setting the `RedrivePolicy` of the queue.
+   * Both queues are compared as in {@link SqsHelper.upsertQueue}, the dead-letter queue first.
+   * If the queue cannot be upserted, the dead-letter queue is deleted if it was created.
+   */
+  static async upsertQueueWithDeadLetterQueue(
+    input: UpsertQueueWithDeadLetterQueueInput,
+  ): Promise<UpsertQueueWithDeadLetterQueueOutput> {
+    const { command, deadLetterQueue, endpoint, force } = input;
+    const { Attributes = {}, QueueName = "", tags } = command.input;
+
+    // the dead-letter queue of a FIFO queue must also be a FIFO queue
+    const fifo = Attributes.FifoQueue === "true";
+    const dlqCommand =
+      deadLetterQueue.command ??
+      new CreateQueueCommand({
+        Attributes: fifo ? { FifoQueue: "true" } : {},
+        QueueName: `${QueueName.replace(/\.fifo$/, "")}-dlq${fifo ? ".fifo" : ""}`,
+        tags,
+      });
+
+    const dlq = await SqsHelper.#upsertQueueWithArn(
+      endpoint,
+      dlqCommand,
+      force,
+    );
+    try {
+      const queue = await SqsHelper.#upsertQueueWithArn(
+        endpoint,
+        new CreateQueueCommand({
+          ...command.input,
+          Attributes: {
+            ...Attributes,
+            RedrivePolicy: JSON.stringify({
+              deadLetterTargetArn: dlq.arn,
+              maxReceiveCount: deadLetterQueue.maxReceiveCount,
+            }),
+          },
         }),
+        force,
       );
+      return { deadLetterQueue: dlq, queue };
+    } catch (error) {
+      if (dlq.action === "create") {
+        await SqsHelper.send({
+          command: new DeleteQueueCommand({ QueueUrl: dlq.url }),
+          endpoint,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /** Upserts a queue with {@link SqsHelper.upsertQueue} and gets its ARN. */
+  static async #upsertQueueWithArn(
+    endpoint: string,
+    command: CreateQueueCommand,
+    force?: boolean,
+  ): Promise<UpsertedQueue> {
+    const { action, diff, queueUrl } = await SqsHelper.upsertQueue({
+      command,
+      endpoint,
+      force,
+    });
+    const { Attributes } = await SqsHelper.send({
+      command: new GetQueueAttributesCommand({
+        AttributeNames: ["QueueArn"],
+        QueueUrl: queueUrl,
+      }),
+      endpoint,
+    });
 
+    return {
+      action,
+      arn: Attributes!.QueueArn!,
+      diff,
+      name: command.input.QueueName!,
+      url: queueUrl,
+    };
+  }
+
+  /** Compares the attributes and tags of an existing queue with the ones of a {@link CreateQueueCommand}. */
+  static async #diffQueue(
+    client: SQSClient,
+    queueUrl: string,
+    command: CreateQueueCommand,
+  ): Promise<readonly QueueDiff[]> {
+    const { Attributes: attributes = {}, tags = {} } = command.input;
+
+    const [{ Attributes: actualAttributes = {} }, { Tags: actualTags = {} }] =
+      await Promise.all([
+        client.send(
+          new GetQueueAttributesCommand({
+            AttributeNames: ["All"],
+            QueueUrl: queueUrl,
+          }),
+        ),
+        client.send(new ListQueueTagsCommand({ QueueUrl: queueUrl })),
+      ]);
+
+    // FIFO queue names end with `.fifo`, so an existing queue with the same name has the same type
+    const fifo = attributes.FifoQueue === "true";
+    const expectedAttributes: Record<string, string | undefined> = {
+      ...DEFAULT_ATTRIBUTES,
+      ...(fifo ? DEFAULT_FIFO_ATTRIBUTES : {}),
+      ...attributes,
+    };
+
+    const diff: QueueDiff[] = [];
+    const attributeNames = new Set([
+      ...QUEUE_ATTRIBUTE_NAMES,
+      ...(fifo ? FIFO_QUEUE_ATTRIBUTE_NAMES : []),
+      ...Object.keys(expectedAttributes),
+    ]);
+    for (const name of [...attributeNames].sort()) {
+      const expected = expectedAttributes[name];
+      const actual = actualAttributes[name as QueueAttributeName];
       if (
-        !shallowEqual(
-          actualAttributes,
-          Object.assign(
-            {},
-            DEFAULT_ATTRIBUTES,
-            command.input.Attributes,
-            command.input.Attributes,
-          ),
+        expected === undefined &&
+        IMPLEMENTATION_DEFINED_ATTRIBUTE_NAMES.has(name)
+      ) {
+        continue;
+      }
+
+      if (
+        !SqsHelper.#attributeEquals(
+          JSON_QUEUE_ATTRIBUTE_NAMES.has(name),
+          expected,
+          actual,
         )
       ) {
-        throw new QueueNameExists({ $metadata: {}, message: "" });
+        diff.push({ actual, expected, name, type: "attribute" });
       }
-    } catch (error) {
-      switch (true) {
-        // no queue: create it
-        case error instanceof QueueDoesNotExist: {
-          await client.send(command);
-          queueUrl = await getQueueUrl();
-          break;
+    }
+
+    const tagNames = new Set([
+      ...Object.keys(tags),
+      ...Object.keys(actualTags),
+    ]);
+    for (const name of [...tagNames].sort()) {
+      const expected = tags[name];
+      const actual = actualTags[name];
+      if (expected !== actual) {
+        diff.push({ actual, expected, name, type: "tag" });
+      }
+    }
+
+    return diff;
+  }
+
+  /** Compares two queue attribute values. JSON values (i.e. policies) are compared semantically. */
+  static #attributeEquals(
+    json: boolean,
+    expected: string | undefined,
+    actual: string | undefined,
+  ): boolean {
+    if (expected === undefined || actual === undefined || !json) {
+      return expected === actual;
+    }
+
+    try {
+      return deepEqual(
+        SqsHelper.#normalizeJson(JSON.parse(expected)),
+        SqsHelper.#normalizeJson(JSON.parse(actual)),
+      );
+    } catch {
+      return expected === actual;
+    }
+  }
+
+  /**
+   * Normalizes a JSON value so that semantically equivalent values are equal:
+   * numeric strings become numbers and arrays are sorted, with single-item arrays becoming their only item.
+   */
+  static #normalizeJson(value: unknown): unknown {
+    switch (true) {
+      case Array.isArray(value): {
+        const items = value
+          .map((v) => SqsHelper.#normalizeJson(v))
+          .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+        return items.length === 1 ? items[0] : items;
+      }
+
+      case value !== null && typeof value === "object": {
+        return Object.fromEntries(
+          Object.entries(value).map(([k, v]) => [
+            k,
+            SqsHelper.#normalizeJson(v),
+          ]),
+        );
+      }
+
+      case typeof value === "string" &&
+        value.trim() !== "" &&
+        !isNaN(Number(value)): {
+        return Number(value);
+      }
+
+      default: {
+        return value;
+      }
+    }
+  }
+
+  /**
+   * Gets the size of a message in bytes as computed by SQS: the body plus the name, type and value of each attribute.
+   * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-message-metadata.html#sqs-message-attributes
+   */
+  static #getMessageSize(entry: SendMessageBatchRequestEntry): number {
+    const { MessageAttributes = {}, MessageBody = "" } = entry;
+
+    return (
+      Buffer.byteLength(MessageBody) +
+      SqsMessageAttributes.getSize(MessageAttributes)
+    );
+  }
+
+  /** Parses the JSON body of a message, unwraps its envelope and validates it. */
+  static #parseJsonMessage<T>(
+    message: Message,
+    envelope: JsonEnvelope | undefined,
+    validator: JsonValidator<T> | undefined,
+  ): JsonMessage<T> {
+    const { metadata, payload } = SqsHelper.#unwrapEnvelope(
+      JSON.parse(message.Body!),
+      envelope,
+    );
+
+    return {
+      ...message,
+      ...(envelope ? { Envelope: metadata } : {}),
+      Object: SqsHelper.#validate(payload, validator),
+    };
+  }
+
+  /** Separates the payload of a parsed JSON body from the metadata of its envelope. */
+  static #unwrapEnvelope(
+    body: unknown,
+    envelope: JsonEnvelope | undefined,
+  ): { metadata?: JsonMessage<unknown>["Envelope"]; payload: unknown } {
+    const obj = (
+      body !== null && typeof body === "object" ? body : {}
+    ) as Record<string, unknown>;
+
+    switch (envelope) {
+      case undefined: {
+        return { payload: body };
+      }
+
+      case "eventbridge": {
+        const { detail, ...metadata } = obj;
+        if (typeof obj["detail-type"] !== "string" || !("detail" in obj)) {
+          throw new Error("The message body is not an EventBridge event.");
         }
+        return {
+          metadata: metadata as unknown as EventBridgeEnvelope,
+          payload: detail,
+        };
+      }
 
-        // queue with different attributes: create it if force is enabled
-        case error instanceof QueueNameExists && force: {
-          await client.send(new DeleteQueueCommand({ QueueUrl: queueUrl }));
-          await client.send(command);
-          queueUrl = await getQueueUrl();
-          break;
+      case "s3-notification": {
+        const { Records, ...metadata } = obj;
+        if (!Array.isArray(Records)) {
+          throw new Error("The message body is not an S3 event notification.");
         }
+        return { metadata, payload: Records };
+      }
 
-        default: {
-          throw error;
+      case "sns": {
+        const { Message, ...metadata } = obj;
+        if (obj.Type !== "Notification" || typeof Message !== "string") {
+          throw new Error("The message body is not an SNS notification.");
         }
+        return {
+          metadata: metadata as unknown as SnsEnvelope,
+          payload: JSON.parse(Message),
+        };
       }
     }
+  }
+
+  /** Validates a value with a {@link JsonValidator}. */
+  static #validate<T>(value: unknown, validator?: JsonValidator<T>): T {
+    switch (true) {
+      case validator === undefined: {
+        return value as T;
+      }
+
+      case typeof validator === "function": {
+        if (!validator(value)) {
+          throw new Error("The value failed validation.");
+        }
+        return value;
+      }
 
-    return { queueUrl };
+      default: {
+        return validator.parse(value);
+      }
+    }
   }
 
   static #getClient(endpoint: string): SQSClient {
     let client = SqsHelper.#clients.get(endpoint);
     if (!client) {
-      client = new SQSClient({ endpoint });
+      client = new SQSClient({
+        ...SqsHelper.#config,
+        ...SqsHelper.#endpointConfigs.get(endpoint),
+        endpoint,
+      });
       SqsHelper.#clients.set(endpoint, client);
     }
 
     return client;
   }
+
+  /** Makes received messages visible again, i.e. sets their visibility timeout to `0`. */
+  static async #releaseMessages(
+    client: SQSClient,
+    queueUrl: string,
+    messages: readonly Message[],
+    abortSignal?: AbortSignal,
+  ): Promise<void> {
+    /**
+     * `10` is the max number of entries.
+     * See: https://docs.aws.amazon.com/AWSSimpleQueueService/latest/APIReference/API_ChangeMessageVisibilityBatch.html#API_ChangeMessageVisibilityBatch_RequestParameters
+     */
+    for (let i = 0; i < messages.length; i += 10) {
+      await client.send(
+        new ChangeMessageVisibilityBatchCommand({
+          QueueUrl: queueUrl,
+          Entries: messages.slice(i, i + 10).map((msg) => ({
+            Id: msg.MessageId,
+            ReceiptHandle: msg.ReceiptHandle,
+            VisibilityTimeout: 0,
+          })),
+        }),
+        { abortSignal },
+      );
+    }
+  }
+
+  /** Removes the cached client of an endpoint, destroying it unless it was set with {@link SqsHelper.setClient}. */
+  static #removeClient(endpoint: string): void {
+    const client = SqsHelper.#clients.get(endpoint);
+    if (!client) {
+      return;
+    }
+
+    if (SqsHelper.#injectedClients.has(client)) {
+      SqsHelper.#injectedClients.delete(client);
+    } else {
+      client.destroy();
+    }
+
+    SqsHelper.#clients.delete(endpoint);
+  }
 }
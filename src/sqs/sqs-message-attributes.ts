@@ -0,0 +1,260 @@
+import type { MessageAttributeValue } from "@aws-sdk/client-sqs";
+import type { SQSMessageAttribute } from "aws-lambda";
+
+/** A decoded message attribute value: `String` as string, `Number` as number (or bigint) and `Binary` as bytes. */
+export type DecodedMessageAttributeValue =
+  | string
+  | number
+  | bigint
+  | Uint8Array;
+
+/**
+ * A message attribute value to encode. Its data type is inferred from the value: strings as `String`, numbers and
+ * bigints as `Number` and bytes as `Binary`. `undefined` values are omitted.
+ */
+export type MessageAttributeInputValue =
+  | DecodedMessageAttributeValue
+  | TypedMessageAttributeValue
+  | undefined;
+
+/** The message attributes to encode, by name. */
+export type MessageAttributesInput = Readonly<
+  Record<string, MessageAttributeInputValue>
+>;
+
+/** A received message attribute, either from an SDK message or from the record of a Lambda event. */
+export type ReceivedMessageAttributeValue =
+  | MessageAttributeValue
+  | SQSMessageAttribute;
+
+/** A message attribute value with an explicit data type, e.g. a custom `Type.Label` data type. */
+export interface TypedMessageAttributeValue {
+  /** The data type, i.e. `String`, `Number` or `Binary` optionally followed by a custom label, e.g. `Number.float`. */
+  readonly dataType: string;
+
+  /** The value, which must be of the data type. */
+  readonly value: DecodedMessageAttributeValue;
+}
+
+/**
+ * The max number of message attributes.
+ * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-message-metadata.html#sqs-message-attributes
+ */
+const MAX_ATTRIBUTES = 10;
+
+/** The max length of an attribute name or data type. */
+const MAX_NAME_LENGTH = 256;
+
+/** The max size in bytes of a message, including its attributes. */
+const MAX_SIZE = 262144;
+
+/** The valid attribute names: alphanumeric characters, hyphens, underscores and non-consecutive inner periods. */
+const NAME_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+
+/** The attribute name prefixes reserved by AWS. */
+const RESERVED_NAME_PATTERN = /^(aws|amazon)\./i;
+
+/** The valid `Number` values, which have up to {@link MAX_NUMBER_PRECISION} significant digits. */
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/** The max number of significant digits of a `Number` value. */
+const MAX_NUMBER_PRECISION = 38;
+
+/**
+ * Encodes and decodes SQS message attributes, e.g. for the entries of `SqsHelper.sendMessages`, the messages of
+ * `SqsHelper.getMessages` or the messages and records of `SqsLambdaHelper.createSqsEvent`.
+ */
+export class SqsMessageAttributes {
+  private constructor() {}
+
+  /**
+   * Decodes message attributes into typed values, based on their data type without its custom label.
+   * Integers beyond the safe integer range are decoded as bigints.
+   */
+  static decode(
+    attributes:
+      | Readonly<Record<string, ReceivedMessageAttributeValue>>
+      | undefined,
+  ): Record<string, DecodedMessageAttributeValue> {
+    return Object.fromEntries(
+      Object.entries(attributes ?? {}).map(([name, attribute]) => {
+        const { binaryValue, dataType, stringValue } =
+          "DataType" in attribute
+            ? {
+                binaryValue: attribute.BinaryValue,
+                dataType: attribute.DataType!,
+                stringValue: attribute.StringValue,
+              }
+            : {
+                binaryValue:
+                  attribute.binaryValue !== undefined
+                    ? new Uint8Array(
+                        Buffer.from(attribute.binaryValue, "base64"),
+                      )
+                    : undefined,
+                dataType: attribute.dataType,
+                stringValue: attribute.stringValue,
+              };
+
+        switch (SqsMessageAttributes.#getBaseType(dataType)) {
+          case "Binary":
+            return [name, binaryValue ?? new Uint8Array()];
+          case "Number":
+            return [name, SqsMessageAttributes.#decodeNumber(stringValue!)];
+          default:
+            return [name, stringValue ?? ""];
+        }
+      }),
+    );
+  }
+
+  /**
+   * Encodes values into message attributes, inferring their data type unless specified.
+   * @throws {Error} if an attribute is invalid or the attributes exceed the number or size limits.
+   */
+  static encode(
+    values: MessageAttributesInput,
+  ): Record<string, MessageAttributeValue> {
+    const attributes = Object.fromEntries(
+      Object.entries(values)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => {
+          SqsMessageAttributes.#validateName(name);
+
+          const { dataType, value: typedValue } =
+            typeof value === "object" && !(value instanceof Uint8Array)
+              ? value
+              : {
+                  dataType: SqsMessageAttributes.#inferType(value!),
+                  value: value!,
+                };
+          return [
+            name,
+            SqsMessageAttributes.#encodeValue(name, dataType, typedValue),
+          ];
+        }),
+    );
+
+    const count = Object.keys(attributes).length;
+    if (count > MAX_ATTRIBUTES) {
+      throw new Error(
+        `Too many message attributes: ${count}, the maximum is ${MAX_ATTRIBUTES}.`,
+      );
+    }
+
+    const size = SqsMessageAttributes.getSize(attributes);
+    if (size > MAX_SIZE) {
+      throw new Error(
+        `The message attributes are too large: ${size} bytes, the maximum is ${MAX_SIZE} bytes.`,
+      );
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Gets the size in bytes of message attributes as computed by SQS: the name, type and value of each attribute.
+   * @see https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-message-metadata.html#sqs-message-attributes
+   */
+  static getSize(
+    attributes: Readonly<Record<string, MessageAttributeValue>>,
+  ): number {
+    return Object.entries(attributes).reduce(
+      (size, [name, { BinaryValue, DataType = "", StringValue = "" }]) =>
+        size +
+        Buffer.byteLength(name) +
+        Buffer.byteLength(DataType) +
+        (BinaryValue ? BinaryValue.byteLength : Buffer.byteLength(StringValue)),
+      0,
+    );
+  }
+
+  static #decodeNumber(value: string): number | bigint {
+    const number = Number(value);
+    return Number.isSafeInteger(number) || !/^[-+]?\d+$/.test(value)
+      ? number
+      : BigInt(value);
+  }
+
+  static #encodeValue(
+    name: string,
+    dataType: string,
+    value: DecodedMessageAttributeValue,
+  ): MessageAttributeValue {
+    const baseType = SqsMessageAttributes.#getBaseType(dataType);
+    const invalid = (reason: string): Error =>
+      new Error(`Invalid message attribute '${name}': ${reason}.`);
+
+    if (
+      dataType.length > MAX_NAME_LENGTH ||
+      !/^(Binary|Number|String)(\.[^.].*)?$/.test(dataType)
+    ) {
+      throw invalid(`unsupported data type '${dataType}'`);
+    }
+
+    switch (baseType) {
+      case "Binary":
+        if (!(value instanceof Uint8Array)) {
+          throw invalid("Binary values must be bytes");
+        }
+        if (!value.byteLength) {
+          throw invalid("the value must not be empty");
+        }
+        return { BinaryValue: value, DataType: dataType };
+
+      case "Number": {
+        const stringValue =
+          typeof value === "string" ? value : String(value as number | bigint);
+        const digits = stringValue
+          .replace(/[eE].*$/, "")
+          .replace(/\D/g, "")
+          .replace(/^0+/, "");
+        if (
+          value instanceof Uint8Array ||
+          !NUMBER_PATTERN.test(stringValue) ||
+          !isFinite(Number(stringValue)) ||
+          digits.length > MAX_NUMBER_PRECISION
+        ) {
+          throw invalid(`'${stringValue}' is not a valid Number`);
+        }
+        return { DataType: dataType, StringValue: stringValue };
+      }
+
+      default:
+        if (value instanceof Uint8Array) {
+          throw invalid("String values must not be bytes");
+        }
+        if (value === "") {
+          throw invalid("the value must not be empty");
+        }
+        return { DataType: dataType, StringValue: String(value) };
+    }
+  }
+
+  /** Gets the data type without its custom label, e.g. `Number` for `Number.float`. */
+  static #getBaseType(dataType: string): string {
+    return dataType.split(".", 1)[0];
+  }
+
+  static #inferType(value: DecodedMessageAttributeValue): string {
+    switch (true) {
+      case value instanceof Uint8Array:
+        return "Binary";
+      case typeof value === "number":
+      case typeof value === "bigint":
+        return "Number";
+      default:
+        return "String";
+    }
+  }
+
+  static #validateName(name: string): void {
+    if (
+      name.length > MAX_NAME_LENGTH ||
+      !NAME_PATTERN.test(name) ||
+      RESERVED_NAME_PATTERN.test(name)
+    ) {
+      throw new Error(`Invalid message attribute name: '${name}'.`);
+    }
+  }
+}
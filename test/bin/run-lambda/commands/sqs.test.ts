@@ -79,10 +79,15 @@ describe("run-lambda sqs", () => {
 
       expect(SqsLambdaHelper.runSqsLambda).toHaveBeenCalledWith({
         abortSignal: expect.any(AbortSignal),
+        batchingWindow: 1,
         batchSize: 2,
         endpoint: "https://example.com",
+        filterCriteria: {
+          Filters: [{ Pattern: '{"body":{"type":["order"]}}' }],
+        },
         handler,
         logger,
+        maximumConcurrency: 2,
         queue: { name: "queue-name" },
         timeout: 3,
       });
@@ -186,15 +191,23 @@ describe("run-lambda sqs", () => {
     });
   });
 
-  describe.each([
+  describe.each<{ testCase: string; args: Record<string, string> }>([
     {
       testCase: "invalid batch size",
       args: { "-b": "text" },
     },
+    {
+      testCase: "invalid batching window",
+      args: { "-w": "-1" },
+    },
     {
       testCase: "invalid endpoint",
       args: { "-e": "text" },
     },
+    {
+      testCase: "invalid filter criteria",
+      args: { "-f": "text" },
+    },
     {
       testCase: "non-existent handler module",
       args: { "-h": "non-existent" },
@@ -211,6 +224,10 @@ describe("run-lambda sqs", () => {
       testCase: "non-logger default export",
       args: { "-l": nonLoggerModulePath },
     },
+    {
+      testCase: "invalid maximum concurrency",
+      args: { "-m": "0" },
+    },
     {
       testCase: "invalid timeout",
       args: { "-t": "text" },
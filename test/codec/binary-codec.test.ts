@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { BinaryCodec } from "../../src/codec/binary-codec";
+
+describe("BinaryCodec", () => {
+  const sut = new BinaryCodec();
+
+  describe("encode", () => {
+    it("encodes bytes as base64", () => {
+      expect(sut.encode(new Uint8Array([0, 1, 2]))).toStrictEqual({
+        body: "AAEC",
+      });
+    });
+  });
+
+  describe("decode", () => {
+    it("decodes base64 body", () => {
+      expect(sut.decode("AAEC")).toStrictEqual(new Uint8Array([0, 1, 2]));
+    });
+
+    describe("invalid base64", () => {
+      it("throws error", () => {
+        expect(() => sut.decode("not base64")).toThrow(Error);
+      });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { gzipSync } from "node:zlib";
+
+import { describe, expect, it } from "vitest";
+
+import type { Codec } from "../../src/codec/codec";
+import { GzipBase64Codec } from "../../src/codec/gzip-base64-codec";
+
+describe("GzipBase64Codec", () => {
+  const sut = new GzipBase64Codec<{ id: number }>();
+
+  describe("encode", () => {
+    it("compresses and encodes value as base64", () => {
+      const { body } = sut.encode({ id: 0 });
+
+      expect(sut.decode(body, {})).toStrictEqual({ id: 0 });
+    });
+  });
+
+  describe("decode", () => {
+    it("decodes and decompresses body", () => {
+      const body = gzipSync('{"id":0}').toString("base64");
+
+      expect(sut.decode(body, {})).toStrictEqual({ id: 0 });
+    });
+
+    describe("uncompressed body", () => {
+      it("throws error", () => {
+        expect(() => sut.decode("eyJpZCI6MH0=", {})).toThrow(Error);
+      });
+    });
+  });
+
+  describe("custom codec", () => {
+    const codec: Codec<string> = {
+      decode: (body, attributes) => `${String(attributes.version)}:${body}`,
+      encode: (value) => ({ attributes: { version: 2 }, body: value }),
+    };
+    const sut = new GzipBase64Codec(codec);
+
+    it("wraps the codec", () => {
+      const { attributes, body } = sut.encode("text");
+
+      expect(attributes).toStrictEqual({ version: 2 });
+      expect(sut.decode(body, { version: 2 })).toBe("2:text");
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { JsonCodec } from "../../src/codec/json-codec";
+
+describe("JsonCodec", () => {
+  const sut = new JsonCodec<{ id: number }>();
+
+  describe("encode", () => {
+    it("encodes value as JSON", () => {
+      expect(sut.encode({ id: 0 })).toStrictEqual({ body: '{"id":0}' });
+    });
+  });
+
+  describe("decode", () => {
+    it("parses JSON", () => {
+      expect(sut.decode('{"id":0}')).toStrictEqual({ id: 0 });
+    });
+
+    describe("invalid JSON", () => {
+      it("throws error", () => {
+        expect(() => sut.decode("{")).toThrow(SyntaxError);
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { fork } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import { Worker } from "node:worker_threads";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  ISOLATED_RESULT_TYPE,
+  type IsolatedInvocation,
+  type IsolatedMessage,
+} from "../../src/lambda/isolated-invocation";
+import { modulePath } from "./modules/handlers";
+
+const runtimePath = fileURLToPath(
+  new URL("../../src/lambda/isolated-runtime.ts", import.meta.url),
+);
+
+const createInvocation = (handlerName: string): IsolatedInvocation => ({
+  context: {
+    awsRequestId: "request",
+    deadline: Date.now() + 5000,
+    functionName: "function",
+    functionVersion: "$LATEST",
+    invokedFunctionArn: "arn",
+    logGroupName: "group",
+    logStreamName: "stream",
+    memoryLimitInMB: "128",
+  },
+  event: { id: 0 },
+  handlerName,
+  module: modulePath,
+  trackAsyncResources: false,
+});
+
+const receiveResult = (
+  emitter: NodeJS.EventEmitter,
+): Promise<IsolatedMessage> =>
+  new Promise((resolve, reject) => {
+    emitter.on("message", (message: IsolatedMessage) => {
+      if (message.type === ISOLATED_RESULT_TYPE) {
+        resolve(message);
+      }
+    });
+    emitter.once("exit", () =>
+      reject(new Error("The runtime exited without a result.")),
+    );
+  });
+
+describe("isolated runtime", () => {
+  describe("child process", () => {
+    it("sends the handler outcome", async () => {
+      const child = fork(runtimePath, { execArgv: ["--import", "tsx"] });
+      try {
+        child.send(createInvocation("ok"));
+
+        const actual = await receiveResult(child);
+
+        expect(actual).toStrictEqual({
+          outcome: {
+            result: { event: { id: 0 }, memoryLimitInMB: "128" },
+            success: true,
+          },
+          type: ISOLATED_RESULT_TYPE,
+        });
+      } finally {
+        child.kill();
+      }
+    });
+  });
+
+  describe("worker", () => {
+    it("sends the handler outcome", async () => {
+      const worker = new Worker(
+        `require("tsx/cjs/api").require(${JSON.stringify(runtimePath)}, ${JSON.stringify(runtimePath)});`,
+        { eval: true, workerData: createInvocation("error") },
+      );
+      try {
+        const actual = await receiveResult(worker);
+
+        expect(actual).toStrictEqual({
+          outcome: { error: new RangeError("error"), success: false },
+          type: ISOLATED_RESULT_TYPE,
+        });
+      } finally {
+        await worker.terminate();
+      }
+    });
+  });
+});
@@ -1,11 +1,227 @@
-import { describe, expect, it } from "vitest";
+import { fileURLToPath } from "node:url";
+
+import { describe, expect, it, vi } from "vitest";
 
 import {
   type InvokeLambdaInput,
   LambdaHelper,
 } from "../../src/lambda/lambda-helper";
+import { NoLogger } from "../../src/logger";
+import { modulePath } from "./modules/handlers";
+
+const report = expect.objectContaining({ requestId: expect.any(String) });
 
 describe("LambdaHelper", () => {
+  describe("createRuntime", () => {
+    const createRuntime = (
+      handlerName: string,
+      maxConcurrency?: number,
+      timeout = 1,
+    ) =>
+      LambdaHelper.createRuntime<number, number>({
+        handlerModule: { handlerName, module: modulePath },
+        maxConcurrency,
+        timeout,
+      });
+
+    it("reuses the warm environment", async () => {
+      const runtime = createRuntime("counter");
+
+      const first = await runtime.invoke({ event: 0 });
+      const second = await runtime.invoke({ event: 0 });
+
+      expect(first).toStrictEqual({
+        coldStart: true,
+        environmentId: expect.any(String),
+        report: expect.objectContaining({ initDuration: expect.any(Number) }),
+        result: 1,
+        success: true,
+      });
+      expect(second).toStrictEqual({
+        coldStart: false,
+        environmentId: first.environmentId,
+        report: expect.not.objectContaining({
+          initDuration: expect.anything(),
+        }),
+        result: 2,
+        success: true,
+      });
+      expect(runtime.environments).toBe(1);
+    });
+
+    describe("forced cold start", () => {
+      it("loads the module in a new environment", async () => {
+        const runtime = createRuntime("counter");
+        const first = await runtime.invoke({ event: 0 });
+
+        const actual = await runtime.invoke({ coldStart: true, event: 0 });
+
+        expect(actual).toMatchObject({ coldStart: true, result: 1 });
+        expect(actual.environmentId).not.toBe(first.environmentId);
+        expect(runtime.environments).toBe(2);
+      });
+    });
+
+    describe("CommonJS module", () => {
+      it("loads the module in each new environment", async () => {
+        const runtime = LambdaHelper.createRuntime<number, number>({
+          handlerModule: {
+            handlerName: "counter",
+            module: fileURLToPath(
+              new URL("modules/handlers.cjs", import.meta.url),
+            ),
+          },
+          timeout: 1,
+        });
+        await runtime.invoke({ event: 0 });
+        const second = await runtime.invoke({ event: 0 });
+
+        const actual = await runtime.invoke({ coldStart: true, event: 0 });
+
+        expect(second).toMatchObject({ coldStart: false, result: 2 });
+        expect(actual).toMatchObject({ coldStart: true, result: 1 });
+      });
+    });
+
+    describe("concurrent invocations", () => {
+      it("creates an environment per invocation", async () => {
+        const runtime = createRuntime("sleep");
+
+        const actual = await Promise.all([
+          runtime.invoke({ event: 20 }),
+          runtime.invoke({ event: 20 }),
+        ]);
+
+        expect(actual.map((output) => output.coldStart)).toStrictEqual([
+          true,
+          true,
+        ]);
+        expect(runtime.environments).toBe(2);
+      });
+
+      describe("maxConcurrency", () => {
+        it("waits for an available environment", async () => {
+          const runtime = createRuntime("sleep", 1);
+
+          const [first, second] = await Promise.all([
+            runtime.invoke({ event: 20 }),
+            runtime.invoke({ event: 20 }),
+          ]);
+
+          expect(first).toMatchObject({ coldStart: true, result: 1 });
+          expect(second).toMatchObject({
+            coldStart: false,
+            environmentId: first.environmentId,
+            result: 2,
+          });
+          expect(runtime.environments).toBe(1);
+        });
+      });
+    });
+
+    describe("timed out invocation", () => {
+      it("discards the environment", async () => {
+        const runtime = createRuntime("sleep", undefined, 0.01);
+
+        const first = await runtime.invoke({ event: 50 });
+        const second = await runtime.invoke({ event: 0 });
+
+        expect(first).toMatchObject({ coldStart: true, kind: "timeout" });
+        expect(second).toMatchObject({ coldStart: true, result: 1 });
+        expect(runtime.environments).toBe(1);
+      });
+    });
+
+    describe("init error", () => {
+      it("returns Runtime.InitError", async () => {
+        const runtime = LambdaHelper.createRuntime({
+          handlerModule: {
+            module: fileURLToPath(
+              new URL("modules/init-error.ts", import.meta.url),
+            ),
+          },
+          timeout: 1,
+        });
+
+        const actual = await runtime.invoke({ event: 0 });
+
+        expect(actual).toStrictEqual({
+          coldStart: true,
+          environmentId: expect.any(String),
+          error: expect.objectContaining({ name: "Runtime.InitError" }),
+          kind: "init",
+          report: expect.objectContaining({ initDuration: expect.any(Number) }),
+          success: false,
+          timeout: false,
+        });
+        expect(runtime.environments).toBe(0);
+      });
+    });
+
+    describe("init timeout", () => {
+      it("returns Runtime.InitError", async () => {
+        const runtime = LambdaHelper.createRuntime({
+          handlerModule: {
+            module: fileURLToPath(
+              new URL("modules/init-timeout.mjs", import.meta.url),
+            ),
+          },
+          initTimeout: 0.1,
+          maxConcurrency: 1,
+          timeout: 1,
+        });
+
+        const actual = await runtime.invoke({ event: 0 });
+
+        expect(actual).toMatchObject({
+          error: { name: "Runtime.InitError" },
+          kind: "init",
+          success: false,
+        });
+        expect(runtime.environments).toBe(0);
+      });
+    });
+
+    describe("rejected invocation", () => {
+      it("releases the environment", async () => {
+        const logger = new NoLogger();
+        vi.spyOn(logger, "info").mockImplementationOnce(() => {
+          throw new Error("logger");
+        });
+        const runtime = LambdaHelper.createRuntime<number, number>({
+          handlerModule: { handlerName: "counter", module: modulePath },
+          logger,
+          maxConcurrency: 1,
+          timeout: 1,
+        });
+        await expect(runtime.invoke({ event: 0 })).rejects.toThrow("logger");
+
+        const actual = await runtime.invoke({ event: 0 });
+
+        expect(actual).toMatchObject({ coldStart: true, success: true });
+        expect(runtime.environments).toBe(1);
+      });
+    });
+
+    describe("reserved environment variable", () => {
+      it("throws error", () => {
+        expect(() =>
+          LambdaHelper.createRuntime({
+            environmentVariables: { AWS_LAMBDA_FUNCTION_NAME: "function" },
+            handlerModule: { module: modulePath },
+            timeout: 1,
+          }),
+        ).toThrow(Error);
+      });
+    });
+
+    describe("invalid maxConcurrency", () => {
+      it("throws error", () => {
+        expect(() => createRuntime("counter", 0)).toThrow(Error);
+      });
+    });
+  });
+
   describe("invokeLambda", () => {
     it("invokes handler with expected input", async () => {
       const context: InvokeLambdaInput<void, void>["context"] = {
@@ -75,6 +291,7 @@ describe("LambdaHelper", () => {
           });
 
           expect(actual).toStrictEqual({
+            report,
             result: "result",
             success: true,
           });
@@ -94,6 +311,8 @@ describe("LambdaHelper", () => {
 
           expect(actual).toStrictEqual({
             error,
+            kind: "error",
+            report,
             success: false,
             timeout: false,
           });
@@ -113,6 +332,7 @@ describe("LambdaHelper", () => {
           });
 
           expect(actual).toStrictEqual({
+            report,
             result: "result",
             success: true,
           });
@@ -132,6 +352,8 @@ describe("LambdaHelper", () => {
 
           expect(actual).toStrictEqual({
             error,
+            kind: "error",
+            report,
             success: false,
             timeout: false,
           });
@@ -148,6 +370,8 @@ describe("LambdaHelper", () => {
 
           expect(actual).toStrictEqual({
             error: undefined,
+            kind: "timeout",
+            report,
             success: false,
             timeout: true,
           });
@@ -168,6 +392,7 @@ describe("LambdaHelper", () => {
             });
 
             expect(actual).toStrictEqual({
+              report,
               result: "result",
               success: true,
             });
@@ -187,6 +412,8 @@ describe("LambdaHelper", () => {
 
             expect(actual).toStrictEqual({
               error,
+              kind: "error",
+              report,
               success: false,
               timeout: false,
             });
@@ -207,6 +434,8 @@ describe("LambdaHelper", () => {
 
           expect(actual).toStrictEqual({
             error,
+            kind: "error",
+            report,
             success: false,
             timeout: false,
           });
@@ -224,6 +453,7 @@ describe("LambdaHelper", () => {
           });
 
           expect(actual).toStrictEqual({
+            report,
             result: "result",
             success: true,
           });
@@ -244,10 +474,445 @@ describe("LambdaHelper", () => {
 
         expect(actual).toStrictEqual({
           error,
+          kind: "error",
+          report,
           success: false,
           timeout: false,
         });
       });
     });
+
+    describe("trackAsyncResources", () => {
+      describe("pending timer", () => {
+        it("waits for the timer", async () => {
+          let fired = false;
+          const actual = await LambdaHelper.invokeLambda({
+            event: "event",
+            handler(event, context, callback) {
+              setTimeout(() => (fired = true), 50);
+              callback(null, "result");
+            },
+            timeout: 1,
+            trackAsyncResources: true,
+          });
+
+          expect(fired).toBe(true);
+          expect(actual).toStrictEqual({
+            report,
+            result: "result",
+            success: true,
+          });
+        });
+      });
+
+      describe("disabled flag", () => {
+        it("returns immediately with pending resources", async () => {
+          const actual = await LambdaHelper.invokeLambda({
+            event: "event",
+            handler(event, context, callback) {
+              context.callbackWaitsForEmptyEventLoop = false;
+              setTimeout(() => {}, 50);
+              callback(null, "result");
+            },
+            timeout: 1,
+            trackAsyncResources: true,
+          });
+
+          expect(actual).toStrictEqual({
+            pendingResources: [{ kind: "timer", type: "Timeout" }],
+            report,
+            result: "result",
+            success: true,
+          });
+        });
+      });
+
+      describe("never empty event loop", () => {
+        it("returns timed out invocation", async () => {
+          let intervalId: ReturnType<typeof setInterval> | undefined;
+          const actual = await LambdaHelper.invokeLambda({
+            event: "event",
+            handler(event, context, callback) {
+              intervalId = setInterval(() => {}, 10);
+              callback(null, "result");
+            },
+            timeout: 0.1,
+            trackAsyncResources: true,
+          });
+          clearInterval(intervalId);
+
+          expect(actual).toStrictEqual({
+            error: undefined,
+            kind: "timeout",
+            report,
+            success: false,
+            timeout: true,
+          });
+        });
+      });
+
+      describe("async handler with fire-and-forget work", () => {
+        it("returns pending resources", async () => {
+          const actual = await LambdaHelper.invokeLambda({
+            event: "event",
+            async handler() {
+              void new Promise((resolve) => setTimeout(resolve, 50));
+              return "result";
+            },
+            timeout: 1,
+            trackAsyncResources: true,
+          });
+
+          expect(actual).toStrictEqual({
+            pendingResources: [
+              { kind: "promise", type: "PROMISE" },
+              { kind: "timer", type: "Timeout" },
+            ],
+            report,
+            result: "result",
+            success: true,
+          });
+        });
+      });
+
+      describe("disabled tracking", () => {
+        it("returns immediately without pending resources", async () => {
+          let fired = false;
+          const actual = await LambdaHelper.invokeLambda({
+            event: "event",
+            handler(event, context, callback) {
+              setTimeout(() => (fired = true), 50);
+              callback(null, "result");
+            },
+            timeout: 1,
+          });
+
+          expect(fired).toBe(false);
+          expect(actual).toStrictEqual({
+            report,
+            result: "result",
+            success: true,
+          });
+        });
+      });
+    });
+
+    describe("report", () => {
+      it("reports the invocation metrics", async () => {
+        const actual = await LambdaHelper.invokeLambda({
+          context: { awsRequestId: "request-id", memoryLimitInMB: "256" },
+          event: "event",
+          handler: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+          },
+          timeout: 1,
+        });
+
+        expect(actual.report).toStrictEqual({
+          billedDuration: Math.ceil(actual.report.duration),
+          duration: expect.any(Number),
+          maxMemoryUsed: expect.any(Number),
+          memorySize: 256,
+          requestId: "request-id",
+        });
+        expect(actual.report.duration).toBeGreaterThanOrEqual(19);
+      });
+
+      describe("logger", () => {
+        it("logs the START, END and REPORT lines", async () => {
+          const logger = new NoLogger();
+          const info = vi.spyOn(logger, "info");
+
+          await LambdaHelper.invokeLambda({
+            context: { awsRequestId: "request-id", functionVersion: "$LATEST" },
+            event: "event",
+            handler: async () => {},
+            logger,
+            timeout: 1,
+          });
+
+          expect(info.mock.calls).toStrictEqual([
+            ["START RequestId: request-id Version: $LATEST"],
+            ["END RequestId: request-id"],
+            [
+              expect.stringMatching(
+                /^REPORT RequestId: request-id\tDuration: \d+\.\d{2} ms\tBilled Duration: \d+ ms\tMemory Size: 128 MB\tMax Memory Used: \d+ MB$/,
+              ),
+            ],
+          ]);
+        });
+      });
+    });
+
+    describe("environment variables", () => {
+      const invoke = () =>
+        LambdaHelper.invokeLambda({
+          context: { functionName: "function", memoryLimitInMB: "256" },
+          environmentVariables: { CUSTOM: "custom" },
+          event: "event",
+          handler: async () => ({ ...process.env }),
+          timeout: 1,
+        });
+
+      it("sets the variables during the invocation", async () => {
+        const actual = await invoke();
+
+        expect(actual.success && actual.result).toMatchObject({
+          AWS_EXECUTION_ENV: expect.stringMatching(/^AWS_Lambda_nodejs\d+\.x$/),
+          AWS_LAMBDA_FUNCTION_MEMORY_SIZE: "256",
+          AWS_LAMBDA_FUNCTION_NAME: "function",
+          AWS_LAMBDA_FUNCTION_VERSION: "placeholder",
+          AWS_LAMBDA_LOG_GROUP_NAME: "placeholder",
+          CUSTOM: "custom",
+          LAMBDA_TASK_ROOT: process.cwd(),
+          _X_AMZN_TRACE_ID: expect.stringMatching(
+            /^Root=1-[\da-f]{8}-[\da-f]{24};Parent=[\da-f]{16};Sampled=0$/,
+          ),
+        });
+        expect(process.env.CUSTOM).toBeUndefined();
+        expect(process.env.AWS_LAMBDA_FUNCTION_NAME).toBeUndefined();
+      });
+
+      it("generates a trace ID per invocation", async () => {
+        const [first, second] = await Promise.all([invoke(), invoke()]);
+
+        expect(
+          first.success && (first.result as NodeJS.ProcessEnv)._X_AMZN_TRACE_ID,
+        ).not.toBe(
+          second.success &&
+            (second.result as NodeJS.ProcessEnv)._X_AMZN_TRACE_ID,
+        );
+      });
+
+      describe("no memory limit", () => {
+        it("sets the default memory size", async () => {
+          const actual = await LambdaHelper.invokeLambda({
+            event: "event",
+            handler: async () => process.env.AWS_LAMBDA_FUNCTION_MEMORY_SIZE,
+            timeout: 1,
+          });
+
+          expect(actual.success && actual.result).toBe("128");
+        });
+      });
+
+      describe("overlapping invocations", () => {
+        it("restores the variables", async () => {
+          const invokeWith = (value: string, ms: number) =>
+            LambdaHelper.invokeLambda({
+              environmentVariables: { CUSTOM: value },
+              event: "event",
+              async handler() {
+                await new Promise((resolve) => setTimeout(resolve, ms));
+                return process.env.CUSTOM;
+              },
+              timeout: 1,
+            });
+
+          const first = invokeWith("first", 10);
+          const second = invokeWith("second", 50);
+          await first;
+          const current = process.env.CUSTOM;
+          await second;
+
+          expect(current).toBe("second");
+          expect(process.env.CUSTOM).toBeUndefined();
+        });
+      });
+
+      describe("reserved variable", () => {
+        it("throws error", async () => {
+          const actual = LambdaHelper.invokeLambda({
+            environmentVariables: { _X_AMZN_TRACE_ID: "trace" },
+            event: "event",
+            handler: async () => {},
+            timeout: 1,
+          });
+
+          await expect(actual).rejects.toThrow(Error);
+        });
+      });
+    });
+
+    describe("handler module", () => {
+      it("invokes the exported handler", async () => {
+        const actual = await LambdaHelper.invokeLambda({
+          event: "event",
+          handler: { handlerName: "callback", module: modulePath },
+          timeout: 1,
+        });
+
+        expect(actual).toStrictEqual({
+          report,
+          result: "event",
+          success: true,
+        });
+      });
+
+      describe("non-function export", () => {
+        it("throws error", async () => {
+          const actual = LambdaHelper.invokeLambda({
+            event: "event",
+            handler: { handlerName: "modulePath", module: modulePath },
+            timeout: 1,
+          });
+
+          await expect(actual).rejects.toThrow(Error);
+        });
+      });
+    });
+
+    describe.each(["process", "worker"] as const)(
+      "%s isolation",
+      (isolation) => {
+        const invoke = (handlerName: string, timeout = 5) =>
+          LambdaHelper.invokeLambda({
+            context: { memoryLimitInMB: "64" },
+            event: { id: 0 },
+            handler: { handlerName, module: modulePath },
+            isolation,
+            timeout,
+          });
+
+        describe("successful invocation", () => {
+          it("returns successful invocation", async () => {
+            const actual = await invoke("ok");
+
+            expect(actual).toStrictEqual({
+              report,
+              result: { event: { id: 0 }, memoryLimitInMB: "64" },
+              success: true,
+            });
+          });
+        });
+
+        describe("environment variables", () => {
+          it("sets the variables in the handler", async () => {
+            const actual = await LambdaHelper.invokeLambda({
+              context: { functionName: "function" },
+              environmentVariables: { CUSTOM: "custom" },
+              event: "event",
+              handler: { handlerName: "environment", module: modulePath },
+              isolation,
+              timeout: 5,
+            });
+
+            expect(actual).toStrictEqual({
+              report,
+              result: {
+                AWS_LAMBDA_FUNCTION_NAME: "function",
+                CUSTOM: "custom",
+              },
+              success: true,
+            });
+          });
+        });
+
+        describe("callbackWaitsForEmptyEventLoop", () => {
+          const invokePendingTimer = (
+            callbackWaitsForEmptyEventLoop: boolean,
+          ) =>
+            LambdaHelper.invokeLambda({
+              event: callbackWaitsForEmptyEventLoop,
+              handler: { handlerName: "pendingTimer", module: modulePath },
+              isolation,
+              timeout: 5,
+              trackAsyncResources: true,
+            });
+
+          describe("pending timer", () => {
+            it("waits for the timer", async () => {
+              const actual = await invokePendingTimer(true);
+
+              expect(actual).toStrictEqual({
+                report,
+                result: { fired: true },
+                success: true,
+              });
+            });
+          });
+
+          describe("disabled flag", () => {
+            it("returns immediately with pending resources", async () => {
+              const actual = await invokePendingTimer(false);
+
+              expect(actual).toStrictEqual({
+                pendingResources: [{ kind: "timer", type: "Timeout" }],
+                report,
+                result: { fired: false },
+                success: true,
+              });
+            });
+          });
+        });
+
+        describe("failed invocation", () => {
+          it("returns failed invocation", async () => {
+            const actual = await invoke("error");
+
+            expect(actual).toStrictEqual({
+              error: new RangeError("error"),
+              kind: "error",
+              report,
+              success: false,
+              timeout: false,
+            });
+          });
+        });
+
+        describe("timed out invocation", () => {
+          it("terminates the handler", async () => {
+            const actual = await invoke("infiniteLoop", 0.5);
+
+            expect(actual).toStrictEqual({
+              error: undefined,
+              kind: "timeout",
+              report,
+              success: false,
+              timeout: true,
+            });
+          });
+        });
+
+        describe("out of memory", () => {
+          it("returns out-of-memory failure", async () => {
+            const actual = await invoke("outOfMemory");
+
+            expect(actual).toMatchObject({
+              kind: "out-of-memory",
+              report: { maxMemoryUsed: 64, memorySize: 64 },
+              success: false,
+              timeout: false,
+            });
+          });
+        });
+
+        describe("crash", () => {
+          it("returns crash failure", async () => {
+            const actual = await invoke("crash");
+
+            expect(actual).toMatchObject({
+              error: expect.any(Error),
+              kind: "crash",
+              success: false,
+              timeout: false,
+            });
+          });
+        });
+
+        describe("handler function", () => {
+          it("throws error", async () => {
+            const actual = LambdaHelper.invokeLambda({
+              event: "event",
+              handler: async () => "result",
+              isolation,
+              timeout: 1,
+            });
+
+            await expect(actual).rejects.toThrow(Error);
+          });
+        });
+      },
+    );
   });
 });
@@ -0,0 +1,6 @@
+/* global exports */
+
+// module-scope state, kept across the invocations of an execution environment
+let invocations = 0;
+
+exports.counter = async () => ++invocations;
@@ -0,0 +1,64 @@
+import { fileURLToPath } from "node:url";
+
+import type { Context, Handler } from "aws-lambda";
+
+export const modulePath = fileURLToPath(import.meta.url);
+
+export const ok: Handler<unknown, unknown> = async (
+  event,
+  context: Context,
+) => ({ event, memoryLimitInMB: context.memoryLimitInMB });
+
+export const callback: Handler<unknown, unknown> = (event, _, cb) => {
+  cb(null, event);
+};
+
+export const error: Handler = async () => {
+  throw new RangeError("error");
+};
+
+export const infiniteLoop: Handler = async () => {
+  for (;;) {
+    // blocks the event loop
+  }
+};
+
+export const outOfMemory: Handler = async () => {
+  const chunks: string[][] = [];
+  for (;;) {
+    chunks.push(new Array(1_000_000).fill("x"));
+  }
+};
+
+export const crash: Handler = () => {
+  setTimeout(() => {
+    throw new Error("crash");
+  });
+};
+
+// the result is read once the invocation is settled, so the timer only updates it if the callback waits for it
+export const pendingTimer: Handler<boolean, { fired: boolean }> = (
+  callbackWaitsForEmptyEventLoop,
+  context,
+  cb,
+) => {
+  context.callbackWaitsForEmptyEventLoop = callbackWaitsForEmptyEventLoop;
+  const result = { fired: false };
+  setTimeout(() => (result.fired = true), 50);
+  cb(null, result);
+};
+
+// module-scope state, kept across the invocations of an execution environment
+let invocations = 0;
+
+export const counter: Handler<unknown, number> = async () => ++invocations;
+
+export const sleep: Handler<number, number> = async (ms) => {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  return ++invocations;
+};
+
+export const environment: Handler<unknown, unknown> = async () => ({
+  AWS_LAMBDA_FUNCTION_NAME: process.env.AWS_LAMBDA_FUNCTION_NAME,
+  CUSTOM: process.env.CUSTOM,
+});
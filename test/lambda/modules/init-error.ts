@@ -0,0 +1,5 @@
+import type { Handler } from "aws-lambda";
+
+throw new Error("init");
+
+export const handler: Handler = async () => {};
@@ -0,0 +1,4 @@
+// the init code never settles
+await new Promise(() => {});
+
+export const handler = async () => {};
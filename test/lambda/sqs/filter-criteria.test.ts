@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+
+import { FilterCriteriaMatcher } from "../../../src/lambda/sqs/filter-criteria";
+import { SqsLambdaHelper } from "../../../src/lambda/sqs/sqs-lambda-helper";
+
+const {
+  event: {
+    Records: [RECORD],
+  },
+} = SqsLambdaHelper.createSqsEvent({
+  messages: [
+    {
+      body: {
+        amount: 10,
+        customer: { name: "Jane", tier: "gold" },
+        tags: ["new", "priority"],
+        type: "order",
+      },
+      overrides: { Attributes: { MessageGroupId: "group-1" } },
+    },
+  ],
+});
+
+function matches(...patterns: readonly unknown[]): boolean {
+  return new FilterCriteriaMatcher({
+    Filters: patterns.map((p) => ({ Pattern: JSON.stringify(p) })),
+  }).matches(RECORD);
+}
+
+describe("FilterCriteriaMatcher", () => {
+  describe("constructor", () => {
+    describe.each([
+      { testCase: "invalid JSON", pattern: "{" },
+      { testCase: "non-object pattern", pattern: "[]" },
+      { testCase: "unsupported rule", pattern: '{"body":[{"wildcard":"*"}]}' },
+      {
+        testCase: "invalid numeric rule",
+        pattern: '{"body":[{"numeric":[">"]}]}',
+      },
+    ])("$testCase", ({ pattern }) => {
+      it("throws error", () => {
+        expect(
+          () => new FilterCriteriaMatcher({ Filters: [{ Pattern: pattern }] }),
+        ).toThrow(Error);
+      });
+    });
+  });
+
+  describe("matches", () => {
+    it.each([
+      ["exact value", { body: { type: ["order"] } }, true],
+      ["exact value mismatch", { body: { type: ["refund"] } }, false],
+      ["nested field", { body: { customer: { tier: ["gold"] } } }, true],
+      ["array field", { body: { tags: ["priority"] } }, true],
+      ["attributes", { attributes: { MessageGroupId: ["group-1"] } }, true],
+      ["multiple fields", { body: { type: ["order"], amount: [20] } }, false],
+      ["prefix", { body: { type: [{ prefix: "ord" }] } }, true],
+      ["prefix mismatch", { body: { type: [{ prefix: "ref" }] } }, false],
+      ["suffix", { body: { type: [{ suffix: "der" }] } }, true],
+      [
+        "equals-ignore-case",
+        { body: { customer: { name: [{ "equals-ignore-case": "JANE" }] } } },
+        true,
+      ],
+      [
+        "numeric",
+        { body: { amount: [{ numeric: [">", 0, "<=", 10] }] } },
+        true,
+      ],
+      [
+        "numeric mismatch",
+        { body: { amount: [{ numeric: ["<", 10] }] } },
+        false,
+      ],
+      [
+        "numeric on a string",
+        { body: { type: [{ numeric: [">", 0] }] } },
+        false,
+      ],
+      ["exists", { body: { amount: [{ exists: true }] } }, true],
+      ["exists mismatch", { body: { missing: [{ exists: true }] } }, false],
+      ["not exists", { body: { missing: [{ exists: false }] } }, true],
+      [
+        "anything-but",
+        { body: { type: [{ "anything-but": "refund" }] } },
+        true,
+      ],
+      [
+        "anything-but mismatch",
+        { body: { type: [{ "anything-but": ["order", "refund"] }] } },
+        false,
+      ],
+      [
+        "anything-but prefix",
+        { body: { type: [{ "anything-but": { prefix: "ref" } }] } },
+        true,
+      ],
+    ])("%s", (_, pattern, expected) => {
+      expect(matches(pattern)).toBe(expected);
+    });
+
+    describe("multiple filters", () => {
+      it("matches any of them", () => {
+        expect(
+          matches(
+            { body: { type: ["refund"] } },
+            { body: { type: ["order"] } },
+          ),
+        ).toBe(true);
+      });
+    });
+
+    describe("plain string body", () => {
+      const {
+        event: {
+          Records: [record],
+        },
+      } = SqsLambdaHelper.createSqsEvent({ messages: [{ body: "plain" }] });
+
+      it("matches the body as a string", () => {
+        const matcher = new FilterCriteriaMatcher({
+          Filters: [{ Pattern: JSON.stringify({ body: ["plain"] }) }],
+        });
+
+        expect(matcher.matches(record)).toBe(true);
+      });
+
+      it("does not match body fields", () => {
+        const matcher = new FilterCriteriaMatcher({
+          Filters: [{ Pattern: JSON.stringify({ body: { type: ["plain"] } }) }],
+        });
+
+        expect(matcher.matches(record)).toBe(false);
+      });
+    });
+  });
+});
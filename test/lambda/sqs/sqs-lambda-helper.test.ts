@@ -3,20 +3,213 @@ import { randomUUID } from "node:crypto";
 import {
   CreateQueueCommand,
   DeleteQueueCommand,
+  GetQueueAttributesCommand,
   SendMessageCommand,
+  SetQueueAttributesCommand,
 } from "@aws-sdk/client-sqs";
 import type { SQSEvent, SQSHandler, SQSRecordAttributes } from "aws-lambda";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { GzipBase64Codec, JsonCodec } from "../../../src/codec";
 import { SqsLambdaHelper } from "../../../src/lambda/sqs/sqs-lambda-helper";
 import { ConsoleLogger } from "../../../src/logger";
-import { SqsHelper } from "../../../src/sqs";
+import { SqsHelper, type TemporaryQueue } from "../../../src/sqs";
 import { delay } from "../../util";
 
 const ENDPOINT = process.env.AWS_ENDPOINT!;
 vi.mock("../../../src/logger");
 
 describe("SqsLambdaHelper", () => {
+  describe("createSqsEvent", () => {
+    it("creates an SQS event", () => {
+      const actual = SqsLambdaHelper.createSqsEvent({
+        messages: [{ body: "body" }, { body: { id: 0 } }],
+        queueArn: "arn:aws:sqs:eu-west-1:111122223333:queue-name",
+      });
+
+      const record = {
+        attributes: {
+          ApproximateFirstReceiveTimestamp: expect.stringMatching(/^\d+$/),
+          ApproximateReceiveCount: "1",
+          SenderId: expect.any(String),
+          SentTimestamp: expect.stringMatching(/^\d+$/),
+        },
+        awsRegion: "eu-west-1",
+        eventSource: "aws:sqs",
+        eventSourceARN: "arn:aws:sqs:eu-west-1:111122223333:queue-name",
+        messageAttributes: {},
+        messageId: expect.any(String),
+        receiptHandle: expect.any(String),
+      };
+      expect(actual.event).toStrictEqual({
+        Records: [
+          {
+            ...record,
+            body: "body",
+            md5OfBody: "841a2d689ad86bd1611447453c22c6fc",
+          },
+          {
+            ...record,
+            body: '{"id":0}',
+            md5OfBody: "32270261d94066e0e70d3e3c8f040c96",
+          },
+        ],
+      });
+      expect(actual.messages).toHaveLength(2);
+    });
+
+    describe("messageAttributes", () => {
+      it("computes the MD5 digest of the attributes", () => {
+        const { messages } = SqsLambdaHelper.createSqsEvent({
+          messages: [
+            {
+              body: "body",
+              messageAttributes: {
+                binary: {
+                  BinaryValue: Buffer.from("value"),
+                  DataType: "Binary",
+                },
+                string: { DataType: "String", StringValue: "value" },
+              },
+            },
+            {
+              body: "body",
+              messageAttributes: {
+                string: { DataType: "String", StringValue: "value" },
+                binary: {
+                  BinaryValue: Buffer.from("value"),
+                  DataType: "Binary",
+                },
+              },
+            },
+          ],
+        });
+
+        expect(messages[0].MD5OfMessageAttributes).toMatch(/^[0-9a-f]{32}$/);
+        expect(messages[1].MD5OfMessageAttributes).toBe(
+          messages[0].MD5OfMessageAttributes,
+        );
+      });
+
+      it("matches the MD5 digest computed by SQS", async () => {
+        const messageAttributes = {
+          binary: { BinaryValue: Buffer.from("value"), DataType: "Binary" },
+          number: { DataType: "Number.int", StringValue: "1" },
+          string: { DataType: "String", StringValue: "value" },
+        };
+        await using queue = await SqsHelper.createTemporaryQueue({
+          endpoint: ENDPOINT,
+        });
+        await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: [
+            { MessageAttributes: messageAttributes, MessageBody: "body" },
+          ],
+          queueUrl: queue.url,
+        });
+        const {
+          messages: [received],
+        } = await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          queueUrl: queue.url,
+        });
+
+        const { messages } = SqsLambdaHelper.createSqsEvent({
+          messages: [{ body: "body", messageAttributes }],
+        });
+
+        expect(received.MD5OfMessageAttributes).toMatch(/^[0-9a-f]{32}$/);
+        expect(messages[0].MD5OfMessageAttributes).toBe(
+          received.MD5OfMessageAttributes,
+        );
+      });
+    });
+
+    describe("codec", () => {
+      it("encodes the bodies and attributes", () => {
+        const { event } = SqsLambdaHelper.createSqsEvent({
+          codec: {
+            decode: (body) => body,
+            encode: (value) => ({
+              attributes: { schemaId: 1, type: "order" },
+              body: String(value),
+            }),
+          },
+          messages: [
+            {
+              body: 0,
+              messageAttributes: {
+                type: { DataType: "String", StringValue: "refund" },
+              },
+            },
+          ],
+        });
+
+        expect(event.Records[0]).toMatchObject({
+          body: "0",
+          messageAttributes: {
+            schemaId: { dataType: "Number", stringValue: "1" },
+            type: { dataType: "String", stringValue: "refund" },
+          },
+        });
+      });
+    });
+
+    describe("overrides", () => {
+      it("overrides the generated values", () => {
+        const { event } = SqsLambdaHelper.createSqsEvent({
+          messages: [
+            {
+              body: "body",
+              overrides: {
+                Attributes: { ApproximateReceiveCount: "3" },
+                MessageId: "message-id",
+              },
+            },
+          ],
+        });
+
+        expect(event.Records[0]).toMatchObject({
+          attributes: {
+            ApproximateReceiveCount: "3",
+            SenderId: expect.any(String),
+          },
+          messageId: "message-id",
+        });
+      });
+    });
+  });
+
+  describe("decodeSqsEvent", () => {
+    it("decodes the record bodies", () => {
+      const codec = new GzipBase64Codec<{ id: number }>();
+      const { event } = SqsLambdaHelper.createSqsEvent({
+        codec,
+        messages: [{ body: { id: 0 } }, { body: { id: 1 } }],
+      });
+
+      const { records } = SqsLambdaHelper.decodeSqsEvent({ codec, event });
+
+      expect(records.map((r) => r.decodedBody)).toStrictEqual([
+        { id: 0 },
+        { id: 1 },
+      ]);
+      expect(records[0]).toMatchObject(event.Records[0]);
+    });
+
+    describe("invalid body", () => {
+      it("throws error", () => {
+        const { event } = SqsLambdaHelper.createSqsEvent({
+          messages: [{ body: "{" }],
+        });
+
+        expect(() =>
+          SqsLambdaHelper.decodeSqsEvent({ codec: new JsonCodec(), event }),
+        ).toThrow(SyntaxError);
+      });
+    });
+  });
+
   describe("runSqsLambda", () => {
     let queueName: string;
     let queueUrl: string;
@@ -24,6 +217,9 @@ describe("SqsLambdaHelper", () => {
       queueName = randomUUID();
       const res = await SqsHelper.upsertQueue({
         command: new CreateQueueCommand({
+          Attributes: {
+            VisibilityTimeout: "1",
+          },
           QueueName: queueName,
         }),
         endpoint: ENDPOINT,
@@ -78,6 +274,375 @@ describe("SqsLambdaHelper", () => {
       );
     });
 
+    it("sets the queue ARN as the event source", async () => {
+      const abortController = new AbortController();
+      const handler = vi.fn(async () => {
+        abortController.abort();
+      });
+
+      await SqsLambdaHelper.runSqsLambda({
+        abortSignal: abortController.signal,
+        batchSize: 1,
+        endpoint: ENDPOINT,
+        handler,
+        queue: { url: queueUrl },
+        timeout: 3,
+      });
+
+      const { Attributes } = await SqsHelper.send({
+        command: new GetQueueAttributesCommand({
+          AttributeNames: ["QueueArn"],
+          QueueUrl: queueUrl,
+        }),
+        endpoint: ENDPOINT,
+      });
+      const [event] = handler.mock.calls[0] as unknown as [SQSEvent];
+      expect(event.Records[0].eventSourceARN).toBe(Attributes?.QueueArn);
+    });
+
+    describe("failed invocation", () => {
+      it("keeps messages in the queue", async () => {
+        const abortController = new AbortController();
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          handler: async () => {
+            abortController.abort();
+            throw new Error("failure");
+          },
+          queue: { url: queueUrl },
+          timeout: 1,
+        });
+
+        const actual = await SqsHelper.getMessages({
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(actual.messages).toHaveLength(2);
+        expect(actual.messages).toMatchObject(
+          Array.from({ length: 2 }).map(() => ({
+            Attributes: expect.objectContaining({
+              ApproximateReceiveCount: "2",
+            }),
+          })),
+        );
+      });
+
+      describe("maxReceiveCount reached", () => {
+        it("moves messages to the dead-letter queue", async () => {
+          const { queueUrl: deadLetterQueueUrl } = await SqsHelper.upsertQueue({
+            command: new CreateQueueCommand({ QueueName: randomUUID() }),
+            endpoint: ENDPOINT,
+          });
+          const { Attributes } = await SqsHelper.send({
+            command: new GetQueueAttributesCommand({
+              AttributeNames: ["QueueArn"],
+              QueueUrl: deadLetterQueueUrl,
+            }),
+            endpoint: ENDPOINT,
+          });
+          await SqsHelper.send({
+            command: new SetQueueAttributesCommand({
+              Attributes: {
+                RedrivePolicy: JSON.stringify({
+                  deadLetterTargetArn: Attributes!.QueueArn,
+                  maxReceiveCount: 2,
+                }),
+              },
+              QueueUrl: queueUrl,
+            }),
+            endpoint: ENDPOINT,
+          });
+          const abortController = new AbortController();
+          const receiveCounts: string[] = [];
+
+          await SqsLambdaHelper.runSqsLambda({
+            abortSignal: abortController.signal,
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            handler: async (event) => {
+              receiveCounts.push(
+                ...event.Records.map(
+                  (r) => r.attributes.ApproximateReceiveCount,
+                ),
+              );
+              if (receiveCounts.length === 4) {
+                abortController.abort();
+              }
+              throw new Error("failure");
+            },
+            queue: { url: queueUrl },
+            timeout: 1,
+          });
+
+          const source = await SqsHelper.getMessages({
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+          const deadLetter = await SqsHelper.getMessages({
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            queueUrl: deadLetterQueueUrl,
+          });
+
+          expect(receiveCounts).toStrictEqual(["1", "1", "2", "2"]);
+          expect(source.messages).toHaveLength(0);
+          expect(deadLetter.messages).toStrictEqual(
+            expect.arrayContaining(
+              Array.from({ length: 2 }).map((_, id) =>
+                expect.objectContaining({ Body: id.toString() }),
+              ),
+            ),
+          );
+        });
+      });
+    });
+
+    describe("batchingWindow", () => {
+      it("invokes the handler with an incomplete batch", async () => {
+        const abortController = new AbortController();
+        const handler = vi.fn(async () => {
+          abortController.abort();
+        });
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchingWindow: 1,
+          batchSize: 10,
+          endpoint: ENDPOINT,
+          handler,
+          queue: { url: queueUrl },
+          timeout: 3,
+        });
+
+        const [event] = handler.mock.calls[0] as unknown as [SQSEvent];
+        expect(event.Records).toHaveLength(2);
+      });
+    });
+
+    describe("filterCriteria", () => {
+      it("deletes the messages that don't match without invoking the handler", async () => {
+        const abortController = new AbortController();
+        const handler = vi.fn(async () => {
+          abortController.abort();
+        });
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          filterCriteria: { Filters: [{ Pattern: '{"body":["1"]}' }] },
+          handler,
+          queue: { url: queueUrl },
+          timeout: 3,
+        });
+
+        const [event] = handler.mock.calls[0] as unknown as [SQSEvent];
+        const { messages } = await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+        expect(event.Records.map((r) => r.body)).toStrictEqual(["1"]);
+        expect(messages).toHaveLength(0);
+      });
+    });
+
+    describe("maxPayloadSize", () => {
+      it("splits the messages beyond it into another batch", async () => {
+        const abortController = new AbortController();
+        const handler = vi.fn(async () => {
+          if (handler.mock.calls.length === 2) {
+            abortController.abort();
+          }
+        });
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchingWindow: 1,
+          batchSize: 10,
+          endpoint: ENDPOINT,
+          handler,
+          maxPayloadSize: 1,
+          queue: { url: queueUrl },
+          timeout: 3,
+        });
+
+        const events = handler.mock.calls as unknown as [SQSEvent][];
+        expect(events.map(([event]) => event.Records.length)).toStrictEqual([
+          1, 1,
+        ]);
+      });
+    });
+
+    describe("maximumConcurrency", () => {
+      it("invokes the handler concurrently", async () => {
+        const abortController = new AbortController();
+        let running = 0;
+        let maxRunning = 0;
+        let invocationCount = 0;
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchSize: 1,
+          endpoint: ENDPOINT,
+          handler: async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await delay(500);
+            running--;
+            if (++invocationCount === 2) {
+              abortController.abort();
+            }
+          },
+          maximumConcurrency: 2,
+          queue: { url: queueUrl },
+          timeout: 3,
+        });
+
+        expect(maxRunning).toBe(2);
+      });
+    });
+
+    describe("reportBatchItemFailures", () => {
+      it("deletes successfully processed messages only", async () => {
+        const abortController = new AbortController();
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          handler: async (event) => {
+            abortController.abort();
+            return {
+              batchItemFailures: event.Records.filter(
+                (r) => r.body === "0",
+              ).map((r) => ({ itemIdentifier: r.messageId })),
+            } as unknown as ReturnType<SQSHandler>;
+          },
+          queue: { url: queueUrl },
+          reportBatchItemFailures: true,
+          timeout: 1,
+        });
+
+        const first = await SqsHelper.getMessages({
+          batchSize: 1,
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+        const second = await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(first.messages).toMatchObject([{ Body: "0" }]);
+        expect(second.messages).toHaveLength(0);
+      });
+
+      describe("invalid response", () => {
+        it("keeps messages in the queue", async () => {
+          const abortController = new AbortController();
+
+          await SqsLambdaHelper.runSqsLambda({
+            abortSignal: abortController.signal,
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            handler: async () => {
+              abortController.abort();
+              return {
+                batchItemFailures: [{ itemIdentifier: "non-existent" }],
+              } as unknown as ReturnType<SQSHandler>;
+            },
+            queue: { url: queueUrl },
+            reportBatchItemFailures: true,
+            timeout: 1,
+          });
+
+          const actual = await SqsHelper.getMessages({
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+
+          expect(actual.messages).toHaveLength(2);
+        });
+      });
+    });
+
+    describe("FIFO queue", () => {
+      it("keeps the messages that follow failed messages in their message group", async () => {
+        const { queueUrl } = await SqsHelper.upsertQueue({
+          command: new CreateQueueCommand({
+            Attributes: {
+              ContentBasedDeduplication: "true",
+              FifoQueue: "true",
+              VisibilityTimeout: "1",
+            },
+            QueueName: `${randomUUID()}.fifo`,
+          }),
+          endpoint: ENDPOINT,
+        });
+        for (const [group, id] of [
+          ["a", 0],
+          ["b", 1],
+          ["a", 2],
+        ] as const) {
+          await SqsHelper.send({
+            command: new SendMessageCommand({
+              MessageBody: id.toString(),
+              MessageGroupId: group,
+              QueueUrl: queueUrl,
+            }),
+            endpoint: ENDPOINT,
+          });
+        }
+        const abortController = new AbortController();
+        let records: SQSEvent["Records"] = [];
+
+        await SqsLambdaHelper.runSqsLambda({
+          abortSignal: abortController.signal,
+          batchSize: 3,
+          endpoint: ENDPOINT,
+          handler: async (event) => {
+            abortController.abort();
+            records = event.Records;
+            return {
+              batchItemFailures: event.Records.filter(
+                (r) => r.body === "0",
+              ).map((r) => ({ itemIdentifier: r.messageId })),
+            } as unknown as ReturnType<SQSHandler>;
+          },
+          queue: { url: queueUrl },
+          reportBatchItemFailures: true,
+          timeout: 1,
+        });
+
+        const actual = await SqsHelper.getMessages({
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(records).toMatchObject(
+          [
+            ["a", "0"],
+            ["b", "1"],
+            ["a", "2"],
+          ].map(([group, body]) => ({
+            attributes: expect.objectContaining({
+              MessageDeduplicationId: expect.any(String),
+              MessageGroupId: group,
+              SequenceNumber: expect.any(String),
+            }),
+            body,
+          })),
+        );
+        expect(actual.messages.map((m) => m.Body)).toStrictEqual(["0", "2"]);
+      });
+    });
+
     describe("abortSignal aborted", async () => {
       it("aborts SQS polling", async () => {
         const abortController = new AbortController();
@@ -126,6 +691,214 @@ describe("SqsLambdaHelper", () => {
     });
   });
 
+  describe("startSqsLambda", () => {
+    let queue: TemporaryQueue;
+    beforeEach(async () => {
+      queue = await SqsHelper.createTemporaryQueue({ endpoint: ENDPOINT });
+    });
+
+    afterEach(async () => {
+      await queue.delete();
+    });
+
+    const sendMessages = async (count: number) =>
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: Array.from({ length: count }).map((_, id) => id.toString()),
+        queueUrl: queue.url,
+      });
+
+    it("waits for the messages to be processed", async () => {
+      const handler = vi.fn();
+      const runner = await SqsLambdaHelper.startSqsLambda({
+        batchSize: 1,
+        endpoint: ENDPOINT,
+        handler,
+        queue: { url: queue.url },
+        timeout: 3,
+      });
+      await sendMessages(2);
+
+      await runner.waitForIdle();
+      await runner.stop();
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(runner.stats).toStrictEqual({
+        failures: 0,
+        filteredMessages: 0,
+        invocations: 2,
+        polls: 2,
+        processedMessages: 2,
+        successes: 2,
+        timeouts: 0,
+      });
+    });
+
+    describe("failed invocation", () => {
+      it("counts failures and timeouts", async () => {
+        const runner = await SqsLambdaHelper.startSqsLambda({
+          batchSize: 1,
+          endpoint: ENDPOINT,
+          handler: async (event) => {
+            if (event.Records[0].body === "0") {
+              throw new Error("failure");
+            }
+            await delay(2000);
+          },
+          queue: { url: queue.url },
+          timeout: 1,
+        });
+        await sendMessages(2);
+
+        await vi.waitFor(() => expect(runner.stats.failures).toBe(2), {
+          timeout: 5000,
+        });
+        await runner.stop();
+
+        expect(runner.stats).toMatchObject({
+          failures: 2,
+          processedMessages: 0,
+          successes: 0,
+          timeouts: 1,
+        });
+      });
+    });
+
+    describe("multiple queues", () => {
+      it("polls every queue with its own settings", async () => {
+        await using other = await SqsHelper.createTemporaryQueue({
+          endpoint: ENDPOINT,
+        });
+        const handler = vi.fn();
+        const runner = await SqsLambdaHelper.startSqsLambda({
+          batchSize: 1,
+          endpoint: ENDPOINT,
+          handler,
+          queue: [
+            { url: queue.url },
+            { batchingWindow: 1, batchSize: 10, url: other.url },
+          ],
+          timeout: 3,
+        });
+        await sendMessages(2);
+        await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: ["2", "3"],
+          queueUrl: other.url,
+        });
+
+        await runner.waitForIdle();
+        await runner.stop();
+
+        const events = handler.mock.calls.map(([event]) => event as SQSEvent);
+        expect(events).toHaveLength(3);
+        expect(events).toContainEqual({
+          Records: expect.arrayContaining([
+            expect.objectContaining({ body: "2", eventSourceARN: other.arn }),
+            expect.objectContaining({ body: "3", eventSourceARN: other.arn }),
+          ]),
+        });
+        expect(runner.queueStats).toStrictEqual({
+          [queue.url]: expect.objectContaining({
+            invocations: 2,
+            processedMessages: 2,
+          }),
+          [other.url]: expect.objectContaining({
+            invocations: 1,
+            processedMessages: 2,
+          }),
+        });
+        expect(runner.stats.processedMessages).toBe(4);
+      });
+    });
+
+    describe("fail to poll SQS", () => {
+      afterEach(() => {
+        vi.restoreAllMocks();
+      });
+
+      it("waits for the other pollers before throwing", async () => {
+        await using other = await SqsHelper.createTemporaryQueue({
+          endpoint: ENDPOINT,
+        });
+        let started!: () => void;
+        const handlerStarted = new Promise<void>((resolve) => {
+          started = resolve;
+        });
+        const getMessages = SqsHelper.getMessages.bind(SqsHelper);
+        vi.spyOn(SqsHelper, "getMessages").mockImplementation(async (input) => {
+          if (input.queueUrl === other.url) {
+            await handlerStarted;
+            throw new Error("poll failure");
+          }
+          return await getMessages(input);
+        });
+        const runner = await SqsLambdaHelper.startSqsLambda({
+          batchSize: 1,
+          endpoint: ENDPOINT,
+          handler: async () => {
+            started();
+            await delay(500);
+          },
+          queue: [{ url: queue.url }, { url: other.url }],
+          timeout: 3,
+        });
+        await sendMessages(1);
+
+        await expect(runner.done).rejects.toThrow("poll failure");
+        expect(runner.stats).toMatchObject({
+          invocations: 1,
+          processedMessages: 1,
+        });
+      });
+    });
+
+    describe("pause", () => {
+      it("stops polling until resumed", async () => {
+        const handler = vi.fn();
+        const runner = await SqsLambdaHelper.startSqsLambda({
+          batchSize: 1,
+          endpoint: ENDPOINT,
+          handler,
+          queue: { url: queue.url },
+          timeout: 3,
+        });
+
+        runner.pause();
+        await sendMessages(1);
+        await delay(500);
+        expect(handler).not.toHaveBeenCalled();
+
+        runner.resume();
+        await runner.waitForIdle();
+        await runner.stop();
+
+        expect(handler).toHaveBeenCalledOnce();
+      });
+    });
+
+    describe("waitForIdle", () => {
+      describe("timeout", () => {
+        it("throws error", async () => {
+          const runner = await SqsLambdaHelper.startSqsLambda({
+            batchSize: 1,
+            endpoint: ENDPOINT,
+            handler: vi.fn(),
+            queue: { url: queue.url },
+            timeout: 3,
+          });
+          runner.pause();
+          await sendMessages(1);
+
+          const actual = runner.waitForIdle({ timeout: 200 });
+
+          await expect(actual).rejects.toThrow(Error);
+          await runner.stop();
+        });
+      });
+    });
+  });
+
   describe("toSqsEvent", () => {
     it("converts messages to an SQS event", () => {
       const actual = SqsLambdaHelper.toSqsEvent({
@@ -220,5 +993,49 @@ describe("SqsLambdaHelper", () => {
       };
       expect(actual).toStrictEqual({ event });
     });
+
+    describe("queueArn", () => {
+      it("derives the event source from the ARN", () => {
+        const actual = SqsLambdaHelper.toSqsEvent({
+          messages: [{ MessageId: "message-id" }],
+          queueArn: "arn:aws-cn:sqs:cn-north-1:111122223333:queue-name",
+        });
+
+        expect(actual.event.Records[0]).toMatchObject({
+          awsRegion: "cn-north-1",
+          eventSourceARN: "arn:aws-cn:sqs:cn-north-1:111122223333:queue-name",
+        });
+      });
+    });
+
+    describe("queueUrl", () => {
+      it.each([
+        "https://sqs.eu-west-1.amazonaws.com/111122223333/queue-name",
+        "https://eu-west-1.queue.amazonaws.com/111122223333/queue-name",
+      ])("derives the event source from %s", (queueUrl) => {
+        const actual = SqsLambdaHelper.toSqsEvent({
+          messages: [{ MessageId: "message-id" }],
+          queueUrl,
+        });
+
+        expect(actual.event.Records[0].eventSourceARN).toBe(
+          "arn:aws:sqs:eu-west-1:111122223333:queue-name",
+        );
+      });
+
+      describe("no region in the hostname", () => {
+        it("uses the specified region", () => {
+          const actual = SqsLambdaHelper.toSqsEvent({
+            messages: [{ MessageId: "message-id" }],
+            queueUrl: "http://localhost:4566/111122223333/queue-name",
+            region: "region",
+          });
+
+          expect(actual.event.Records[0].eventSourceARN).toBe(
+            "arn:aws:sqs:region:111122223333:queue-name",
+          );
+        });
+      });
+    });
   });
 });
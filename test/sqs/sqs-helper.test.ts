@@ -1,15 +1,31 @@
 import { hash, randomUUID } from "node:crypto";
 
 import {
+  type BatchResultErrorEntry,
   CreateQueueCommand,
   GetQueueAttributesCommand,
   GetQueueUrlCommand,
+  QueueDoesNotExist,
   QueueNameExists,
+  type SendMessageBatchCommandOutput,
+  type SendMessageBatchRequest,
+  type SendMessageBatchResultEntry,
   SendMessageCommand,
+  SQSClient,
 } from "@aws-sdk/client-sqs";
-import { beforeEach, describe, expect, it } from "vitest";
+import {
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { z, ZodError } from "zod";
 
-import { SqsHelper } from "../../src/sqs/sqs-helper";
+import { BinaryCodec, type Codec, GzipBase64Codec } from "../../src/codec";
+import { SqsHelper, type TemporaryQueue } from "../../src/sqs/sqs-helper";
 import { delay } from "../util";
 
 const ENDPOINT = process.env.AWS_ENDPOINT!;
@@ -26,6 +42,10 @@ describe("SQSHelper", () => {
     queueUrl = res.queueUrl;
   });
 
+  afterAll(async () => {
+    await SqsHelper.dispose();
+  });
+
   describe("clearQueue", () => {
     beforeEach(async () => {
       await Promise.all(
@@ -55,6 +75,56 @@ describe("SQSHelper", () => {
       expect(actual.messages).toHaveLength(0);
     });
 
+    describe("in-flight and delayed messages", () => {
+      it("clears queue", async () => {
+        await SqsHelper.getMessages({
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          keep: true,
+          queueUrl,
+          visibilityTimeout: 1,
+        });
+        await SqsHelper.send({
+          command: new SendMessageCommand({
+            DelaySeconds: 1,
+            MessageBody: "delayed",
+            QueueUrl: queueUrl,
+          }),
+          endpoint: ENDPOINT,
+        });
+
+        await SqsHelper.clearSqsQueue({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        const actual = await SqsHelper.getQueueStats({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+        expect(actual).toStrictEqual({ delayed: 0, inFlight: 0, visible: 0 });
+      });
+    });
+
+    describe("timeout", () => {
+      it("throws error", async () => {
+        await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          keep: true,
+          queueUrl,
+          visibilityTimeout: 10,
+        });
+
+        const actual = SqsHelper.clearSqsQueue({
+          endpoint: ENDPOINT,
+          queueUrl,
+          timeout: 500,
+        });
+
+        await expect(actual).rejects.toThrow(Error);
+      });
+    });
+
     describe("purge", () => {
       it("clears queue", async () => {
         await SqsHelper.clearSqsQueue({
@@ -70,45 +140,115 @@ describe("SQSHelper", () => {
 
         expect(actual.messages).toHaveLength(0);
       });
-    });
-  });
 
-  describe("getJsonMessage", () => {
-    it("gets parsed JSON messages", async () => {
-      await Promise.all(
-        Array.from({ length: 3 }).map((_, id) =>
-          SqsHelper.send({
+      describe("purge in progress", () => {
+        it("clears queue", async () => {
+          await SqsHelper.clearSqsQueue({
+            endpoint: ENDPOINT,
+            queueUrl,
+            purge: true,
+          });
+          await SqsHelper.send({
             command: new SendMessageCommand({
-              MessageBody: JSON.stringify({ id }),
+              MessageBody: "message",
               QueueUrl: queueUrl,
             }),
             endpoint: ENDPOINT,
-          }),
-        ),
-      );
+          });
 
-      const actual = await SqsHelper.getJsonMessages({
+          await SqsHelper.clearSqsQueue({
+            endpoint: ENDPOINT,
+            queueUrl,
+            purge: true,
+          });
+
+          const actual = await SqsHelper.getMessages({
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+          expect(actual.messages).toHaveLength(0);
+        });
+      });
+    });
+  });
+
+  describe("createTemporaryQueue", () => {
+    it("creates a queue with a unique name", async () => {
+      await using queue = await SqsHelper.createTemporaryQueue({
         endpoint: ENDPOINT,
-        queueUrl,
+        prefix: "test-",
       });
 
-      expect(actual.messages).toHaveLength(3);
-      expect(actual).toStrictEqual({
-        messages: expect.arrayContaining(
-          Array.from({ length: 3 }).map((_, id) =>
-            expect.objectContaining({
-              Object: { id },
+      const { Attributes } = await SqsHelper.send({
+        command: new GetQueueAttributesCommand({
+          AttributeNames: ["QueueArn"],
+          QueueUrl: queue.url,
+        }),
+        endpoint: ENDPOINT,
+      });
+      expect(queue.name).toMatch(/^test-/);
+      expect(queue.arn).toBe(Attributes?.QueueArn);
+      expect(queue.deadLetterQueue).toBeUndefined();
+    });
+
+    it("deletes the queue on dispose", async () => {
+      let temporaryQueueName: string;
+      {
+        await using queue = await SqsHelper.createTemporaryQueue({
+          endpoint: ENDPOINT,
+        });
+        temporaryQueueName = queue.name;
+      }
+
+      await expect(
+        SqsHelper.send({
+          command: new GetQueueUrlCommand({ QueueName: temporaryQueueName }),
+          endpoint: ENDPOINT,
+        }),
+      ).rejects.toThrow(QueueDoesNotExist);
+    });
+
+    describe("deadLetterQueue", () => {
+      it("creates and deletes a dead-letter queue", async () => {
+        const queue = await SqsHelper.createTemporaryQueue({
+          deadLetterQueue: { maxReceiveCount: 2 },
+          endpoint: ENDPOINT,
+          fifo: true,
+        });
+
+        const { Attributes } = await SqsHelper.send({
+          command: new GetQueueAttributesCommand({
+            AttributeNames: ["RedrivePolicy"],
+            QueueUrl: queue.url,
+          }),
+          endpoint: ENDPOINT,
+        });
+        expect(queue.name).toMatch(/\.fifo$/);
+        expect(queue.deadLetterQueue?.name).toMatch(/-dlq\.fifo$/);
+        expect(JSON.parse(Attributes!.RedrivePolicy!)).toStrictEqual({
+          deadLetterTargetArn: queue.deadLetterQueue?.arn,
+          maxReceiveCount: 2,
+        });
+
+        await queue.delete();
+        await queue.delete();
+
+        await expect(
+          SqsHelper.send({
+            command: new GetQueueUrlCommand({
+              QueueName: queue.deadLetterQueue?.name,
             }),
-          ),
-        ),
+            endpoint: ENDPOINT,
+          }),
+        ).rejects.toThrow(QueueDoesNotExist);
       });
     });
   });
 
-  describe("getMessages", () => {
-    beforeEach(async () => {
+  describe("deleteMessages", () => {
+    it("deletes messages", async () => {
       await Promise.all(
-        Array.from({ length: 3 }).map((_, id) =>
+        Array.from({ length: 11 }).map((_, id) =>
           SqsHelper.send({
             command: new SendMessageCommand({
               MessageBody: id.toString(),
@@ -118,148 +258,1319 @@ describe("SQSHelper", () => {
           }),
         ),
       );
-    });
-
-    it("gets SQS messages and deletes them", async () => {
-      const first = await SqsHelper.getMessages({
+      const { messages } = await SqsHelper.getMessages({
+        batchSize: 11,
         endpoint: ENDPOINT,
+        keep: true,
         queueUrl,
+        visibilityTimeout: 1,
       });
 
-      expect(first.messages).toHaveLength(3);
-      expect(first).toStrictEqual({
-        messages: expect.arrayContaining(
-          Array.from({ length: 3 }).map((_, id) => ({
-            Attributes: {
-              ApproximateFirstReceiveTimestamp: expect.stringMatching(/\d+/),
-              ApproximateReceiveCount: "1",
-              SenderId: expect.stringMatching(/^\d{12}$/),
-              SentTimestamp: expect.stringMatching(/\d+/),
-            },
-            Body: id.toString(),
-            MD5OfBody: hash("md5", id.toString(), "hex"),
-            MessageId: expect.stringMatching(
-              /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/,
-            ),
-            ReceiptHandle: expect.any(String),
-          })),
-        ),
+      await SqsHelper.deleteMessages({
+        endpoint: ENDPOINT,
+        messages,
+        queueUrl,
       });
 
-      const second = await SqsHelper.getMessages({
+      await delay(1000);
+      const actual = await SqsHelper.getMessages({
         endpoint: ENDPOINT,
         queueUrl,
       });
 
-      expect(second.messages).toHaveLength(0);
+      expect(actual.messages).toHaveLength(0);
     });
+  });
 
-    describe("abortController", () => {
-      it("aborts request", async () => {
-        const abortController = new AbortController();
-        const [actual] = await Promise.allSettled([
-          SqsHelper.getMessages({
-            abortSignal: abortController.signal,
-            batchSize: 4,
-            endpoint: ENDPOINT,
-            queueUrl,
-          }),
-          (async () => {
-            await delay(1);
-            abortController.abort();
-          })(),
-        ]);
+  describe("dispose", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
 
-        expect(actual.status).toBe("rejected");
-        expect(actual.status === "rejected" && actual.reason).toMatchObject({
-          name: "AbortError",
-        });
+    it("destroys the cached clients", async () => {
+      const destroy = vi.spyOn(SQSClient.prototype, "destroy");
+      await SqsHelper.send({
+        command: new GetQueueUrlCommand({ QueueName: queueName }),
+        endpoint: ENDPOINT,
       });
+
+      await SqsHelper.dispose();
+
+      expect(destroy).toHaveBeenCalled();
     });
 
-    describe("batchSize", () => {
-      it("waits for the messages to arrive", async () => {
-        const [actual] = await Promise.all([
-          SqsHelper.getMessages({
-            batchSize: 15,
-            endpoint: ENDPOINT,
-            queueUrl,
-          }),
-          (async () => {
-            await delay(1);
-            await Promise.all(
-              Array.from({ length: 13 }).map((_, id) =>
-                SqsHelper.send({
-                  command: new SendMessageCommand({
-                    MessageBody: (id + 3).toString(),
-                    QueueUrl: queueUrl,
-                  }),
-                  endpoint: ENDPOINT,
-                }),
-              ),
-            );
-          })(),
-        ]);
+    describe("injected client", () => {
+      it("does not destroy the client", async () => {
+        const client = new SQSClient({ endpoint: ENDPOINT });
+        const destroy = vi.spyOn(client, "destroy");
+        SqsHelper.setClient({ client, endpoint: ENDPOINT });
 
-        expect(actual.messages).toHaveLength(15);
+        await SqsHelper.dispose();
+
+        expect(destroy).not.toHaveBeenCalled();
+        client.destroy();
       });
+    });
+  });
 
-      describe("less than 1", () => {
-        it("throws error", async () => {
-          const actual = SqsHelper.getMessages({
-            batchSize: 0,
-            endpoint: ENDPOINT,
-            queueUrl,
-          });
+  describe("getDecodedMessages", () => {
+    it("gets decoded messages", async () => {
+      const codec = new GzipBase64Codec<{ id: number }>();
+      await SqsHelper.sendEncodedMessages({
+        codec,
+        endpoint: ENDPOINT,
+        messages: [{ Value: { id: 0 } }],
+        queueUrl,
+      });
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: ["invalid"],
+        queueUrl,
+      });
 
-          await expect(actual).rejects.toThrow();
-        });
+      const actual = await SqsHelper.getDecodedMessages({
+        batchSize: 2,
+        codec,
+        endpoint: ENDPOINT,
+        queueUrl,
       });
+
+      expect(actual.messages.map((m) => m.Value)).toStrictEqual([{ id: 0 }]);
+      expect(actual.invalid).toStrictEqual([
+        {
+          error: expect.any(Error),
+          message: expect.objectContaining({ Body: "invalid" }),
+        },
+      ]);
     });
 
-    describe("keep", () => {
-      it("gets SQS messages and keeps them", async () => {
-        const first = await SqsHelper.getMessages({
+    describe("message attributes", () => {
+      it("provides the decoded attributes to the codec", async () => {
+        const codec: Codec<string> = {
+          decode: (body, attributes) =>
+            `${String(attributes.schemaId)}:${body}`,
+          encode: (value) => ({ attributes: { schemaId: 1 }, body: value }),
+        };
+        await SqsHelper.sendEncodedMessages({
+          codec,
           endpoint: ENDPOINT,
-          keep: true,
+          messages: [{ Value: "value" }],
           queueUrl,
         });
 
-        expect(first.messages).toHaveLength(3);
-        expect(first).toMatchObject({
-          messages: expect.arrayContaining(
-            Array.from({ length: 3 }).map((_, id) =>
-              expect.objectContaining({
-                Body: id.toString(),
-              }),
-            ),
-          ),
+        const actual = await SqsHelper.getDecodedMessages({
+          codec,
+          endpoint: ENDPOINT,
+          queueUrl,
         });
 
-        const second = await SqsHelper.getMessages({
+        expect(actual.messages.map((m) => m.Value)).toStrictEqual(["1:value"]);
+      });
+    });
+
+    describe("strict", () => {
+      it("throws error", async () => {
+        await SqsHelper.sendMessages({
           endpoint: ENDPOINT,
+          messages: ["invalid"],
           queueUrl,
         });
 
-        expect(second.messages).toHaveLength(3);
+        const actual = SqsHelper.getDecodedMessages({
+          codec: new BinaryCodec(),
+          endpoint: ENDPOINT,
+          queueUrl,
+          strict: true,
+        });
+
+        await expect(actual).rejects.toThrow(Error);
       });
     });
   });
 
-  describe("upsertQueue", () => {
-    it("creates queue", async () => {
-      const { QueueUrl: expected } = await SqsHelper.send({
-        command: new GetQueueUrlCommand({
-          QueueName: queueName,
-        }),
+  describe("getJsonMessage", () => {
+    it("gets parsed JSON messages", async () => {
+      await Promise.all(
+        Array.from({ length: 3 }).map((_, id) =>
+          SqsHelper.send({
+            command: new SendMessageCommand({
+              MessageBody: JSON.stringify({ id }),
+              QueueUrl: queueUrl,
+            }),
+            endpoint: ENDPOINT,
+          }),
+        ),
+      );
+
+      const actual = await SqsHelper.getJsonMessages({
         endpoint: ENDPOINT,
+        queueUrl,
       });
 
-      expect(expected).toBe(queueUrl);
+      expect(actual.messages).toHaveLength(3);
+      expect(actual).toStrictEqual({
+        invalid: [],
+        messages: expect.arrayContaining(
+          Array.from({ length: 3 }).map((_, id) =>
+            expect.objectContaining({
+              Object: { id },
+            }),
+          ),
+        ),
+      });
     });
 
-    describe("existing queue", () => {
-      describe("same attributes", () => {
+    describe("envelope", () => {
+      describe("eventbridge", () => {
+        it("unwraps the event detail", async () => {
+          const metadata = {
+            account: "123456789012",
+            "detail-type": "detail-type",
+            id: "id",
+            region: "us-east-1",
+            resources: [],
+            source: "source",
+            time: "2025-01-01T00:00:00Z",
+            version: "0",
+          };
+          await SqsHelper.sendJsonMessages({
+            endpoint: ENDPOINT,
+            messages: [{ Object: { ...metadata, detail: { id: 0 } } }],
+            queueUrl,
+          });
+
+          const actual = await SqsHelper.getJsonMessages({
+            envelope: "eventbridge",
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+
+          expect(actual.messages).toStrictEqual([
+            expect.objectContaining({
+              Envelope: metadata,
+              Object: { id: 0 },
+            }),
+          ]);
+        });
+      });
+
+      describe("s3-notification", () => {
+        it("unwraps the notification records", async () => {
+          const records = [{ eventName: "ObjectCreated:Put" }];
+          await SqsHelper.sendJsonMessages({
+            endpoint: ENDPOINT,
+            messages: [{ Object: { Records: records } }],
+            queueUrl,
+          });
+
+          const actual = await SqsHelper.getJsonMessages({
+            envelope: "s3-notification",
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+
+          expect(actual.messages).toStrictEqual([
+            expect.objectContaining({
+              Envelope: {},
+              Object: records,
+            }),
+          ]);
+        });
+      });
+
+      describe("sns", () => {
+        const metadata = {
+          MessageAttributes: {
+            attribute: { Type: "String", Value: "value" },
+          },
+          MessageId: "message-id",
+          Subject: "subject",
+          Timestamp: "2025-01-01T00:00:00.000Z",
+          TopicArn: "arn:aws:sns:us-east-1:123456789012:topic",
+          Type: "Notification",
+        };
+
+        it("unwraps the notification message", async () => {
+          await SqsHelper.sendJsonMessages({
+            endpoint: ENDPOINT,
+            messages: [
+              {
+                Object: { ...metadata, Message: JSON.stringify({ id: 0 }) },
+              },
+            ],
+            queueUrl,
+          });
+
+          const actual = await SqsHelper.getJsonMessages({
+            envelope: "sns",
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+
+          expect(actual.messages).toStrictEqual([
+            expect.objectContaining({
+              Envelope: metadata,
+              Object: { id: 0 },
+            }),
+          ]);
+        });
+
+        describe("invalid message", () => {
+          it("returns invalid messages", async () => {
+            await SqsHelper.sendJsonMessages({
+              endpoint: ENDPOINT,
+              messages: [
+                { Object: { ...metadata, Message: "invalid" } },
+                { Object: { id: 0 } },
+              ],
+              queueUrl,
+            });
+
+            const actual = await SqsHelper.getJsonMessages({
+              batchSize: 2,
+              envelope: "sns",
+              endpoint: ENDPOINT,
+              queueUrl,
+            });
+
+            expect(actual).toStrictEqual({
+              invalid: expect.arrayContaining([
+                {
+                  error: expect.any(SyntaxError),
+                  message: expect.any(Object),
+                },
+                {
+                  error: expect.any(Error),
+                  message: expect.objectContaining({
+                    Body: JSON.stringify({ id: 0 }),
+                  }),
+                },
+              ]),
+              messages: [],
+            });
+          });
+        });
+      });
+    });
+
+    describe("invalid JSON", () => {
+      beforeEach(async () => {
+        await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: [JSON.stringify({ id: 0 }), "invalid"],
+          queueUrl,
+        });
+      });
+
+      it("returns invalid messages", async () => {
+        const actual = await SqsHelper.getJsonMessages({
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(actual).toStrictEqual({
+          invalid: [
+            {
+              error: expect.any(SyntaxError),
+              message: expect.objectContaining({ Body: "invalid" }),
+            },
+          ],
+          messages: [expect.objectContaining({ Object: { id: 0 } })],
+        });
+      });
+
+      describe("strict", () => {
+        it("throws error", async () => {
+          const actual = SqsHelper.getJsonMessages({
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            queueUrl,
+            strict: true,
+          });
+
+          await expect(actual).rejects.toThrow(SyntaxError);
+        });
+      });
+    });
+
+    describe("validator", () => {
+      beforeEach(async () => {
+        await SqsHelper.sendJsonMessages({
+          endpoint: ENDPOINT,
+          messages: [{ Object: { id: 0 } }, { Object: { id: "1" } }],
+          queueUrl,
+        });
+      });
+
+      describe("zod schema", () => {
+        it("returns messages that fail validation as invalid", async () => {
+          const actual = await SqsHelper.getJsonMessages({
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            queueUrl,
+            validator: z.object({ id: z.number() }),
+          });
+
+          expect(actual).toStrictEqual({
+            invalid: [
+              {
+                error: expect.any(ZodError),
+                message: expect.objectContaining({
+                  Body: JSON.stringify({ id: "1" }),
+                }),
+              },
+            ],
+            messages: [expect.objectContaining({ Object: { id: 0 } })],
+          });
+          expect(actual.messages[0].Object.id).toBe(0);
+        });
+      });
+
+      describe("type guard", () => {
+        it("returns messages that fail validation as invalid", async () => {
+          const actual = await SqsHelper.getJsonMessages({
+            batchSize: 2,
+            endpoint: ENDPOINT,
+            queueUrl,
+            validator: (value): value is { id: number } =>
+              typeof (value as { id: unknown }).id === "number",
+          });
+
+          expect(actual).toStrictEqual({
+            invalid: [
+              {
+                error: expect.any(Error),
+                message: expect.objectContaining({
+                  Body: JSON.stringify({ id: "1" }),
+                }),
+              },
+            ],
+            messages: [expect.objectContaining({ Object: { id: 0 } })],
+          });
+        });
+      });
+    });
+  });
+
+  describe("getMessages", () => {
+    beforeEach(async () => {
+      await Promise.all(
+        Array.from({ length: 3 }).map((_, id) =>
+          SqsHelper.send({
+            command: new SendMessageCommand({
+              MessageBody: id.toString(),
+              QueueUrl: queueUrl,
+            }),
+            endpoint: ENDPOINT,
+          }),
+        ),
+      );
+    });
+
+    it("gets SQS messages and deletes them", async () => {
+      const first = await SqsHelper.getMessages({
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+
+      expect(first.messages).toHaveLength(3);
+      expect(first).toStrictEqual({
+        messages: expect.arrayContaining(
+          Array.from({ length: 3 }).map((_, id) => ({
+            Attributes: {
+              ApproximateFirstReceiveTimestamp: expect.stringMatching(/\d+/),
+              ApproximateReceiveCount: "1",
+              SenderId: expect.stringMatching(/^\d{12}$/),
+              SentTimestamp: expect.stringMatching(/\d+/),
+            },
+            Body: id.toString(),
+            MD5OfBody: hash("md5", id.toString(), "hex"),
+            MessageId: expect.stringMatching(
+              /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/,
+            ),
+            ReceiptHandle: expect.any(String),
+          })),
+        ),
+      });
+
+      const second = await SqsHelper.getMessages({
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+
+      expect(second.messages).toHaveLength(0);
+    });
+
+    describe("abortController", () => {
+      it("aborts request", async () => {
+        const abortController = new AbortController();
+        const [actual] = await Promise.allSettled([
+          SqsHelper.getMessages({
+            abortSignal: abortController.signal,
+            batchSize: 4,
+            endpoint: ENDPOINT,
+            queueUrl,
+          }),
+          (async () => {
+            await delay(1);
+            abortController.abort();
+          })(),
+        ]);
+
+        expect(actual.status).toBe("rejected");
+        expect(actual.status === "rejected" && actual.reason).toMatchObject({
+          name: "AbortError",
+        });
+      });
+    });
+
+    describe("batchSize", () => {
+      it("waits for the messages to arrive", async () => {
+        const [actual] = await Promise.all([
+          SqsHelper.getMessages({
+            batchSize: 15,
+            endpoint: ENDPOINT,
+            queueUrl,
+          }),
+          (async () => {
+            await delay(1);
+            await Promise.all(
+              Array.from({ length: 13 }).map((_, id) =>
+                SqsHelper.send({
+                  command: new SendMessageCommand({
+                    MessageBody: (id + 3).toString(),
+                    QueueUrl: queueUrl,
+                  }),
+                  endpoint: ENDPOINT,
+                }),
+              ),
+            );
+          })(),
+        ]);
+
+        expect(actual.messages).toHaveLength(15);
+      });
+
+      describe("less than 1", () => {
+        it("throws error", async () => {
+          const actual = SqsHelper.getMessages({
+            batchSize: 0,
+            endpoint: ENDPOINT,
+            queueUrl,
+          });
+
+          await expect(actual).rejects.toThrow();
+        });
+      });
+    });
+
+    describe("FIFO queue", () => {
+      it("gets SQS messages in order within each message group", async () => {
+        const { queueUrl } = await SqsHelper.upsertQueue({
+          command: new CreateQueueCommand({
+            Attributes: {
+              ContentBasedDeduplication: "true",
+              FifoQueue: "true",
+            },
+            QueueName: `${randomUUID()}.fifo`,
+          }),
+          endpoint: ENDPOINT,
+        });
+        for (const [group, id] of [
+          ["a", 0],
+          ["b", 1],
+          ["a", 2],
+          ["b", 3],
+          ["a", 4],
+        ] as const) {
+          await SqsHelper.send({
+            command: new SendMessageCommand({
+              MessageBody: id.toString(),
+              MessageGroupId: group,
+              QueueUrl: queueUrl,
+            }),
+            endpoint: ENDPOINT,
+          });
+        }
+
+        const actual = await SqsHelper.getMessages({
+          batchSize: 5,
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(
+          actual.messages
+            .filter((m) => m.Attributes?.MessageGroupId === "a")
+            .map((m) => m.Body),
+        ).toStrictEqual(["0", "2", "4"]);
+        expect(
+          actual.messages
+            .filter((m) => m.Attributes?.MessageGroupId === "b")
+            .map((m) => m.Body),
+        ).toStrictEqual(["1", "3"]);
+      });
+    });
+
+    describe("maxPayloadSize", () => {
+      it("releases the messages beyond the payload size", async () => {
+        const first = await SqsHelper.getMessages({
+          batchSize: 3,
+          endpoint: ENDPOINT,
+          maxPayloadSize: 2,
+          queueUrl,
+        });
+
+        const second = await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(first.messages).toHaveLength(2);
+        expect(second.messages).toHaveLength(1);
+      });
+    });
+
+    describe("maxWaitTime", () => {
+      it("returns an incomplete batch once elapsed", async () => {
+        const actual = await SqsHelper.getMessages({
+          batchSize: 5,
+          endpoint: ENDPOINT,
+          maxWaitTime: 1,
+          queueUrl,
+        });
+
+        expect(actual.messages).toHaveLength(3);
+      });
+    });
+
+    describe("keep", () => {
+      it("gets SQS messages and keeps them", async () => {
+        const first = await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          keep: true,
+          queueUrl,
+        });
+
+        expect(first.messages).toHaveLength(3);
+        expect(first).toMatchObject({
+          messages: expect.arrayContaining(
+            Array.from({ length: 3 }).map((_, id) =>
+              expect.objectContaining({
+                Body: id.toString(),
+              }),
+            ),
+          ),
+        });
+
+        const second = await SqsHelper.getMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(second.messages).toHaveLength(3);
+      });
+    });
+  });
+
+  describe("getQueueStats", () => {
+    it("gets the number of messages by state", async () => {
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: ["0", "1", "2", { DelaySeconds: 60, MessageBody: "delayed" }],
+        queueUrl,
+      });
+      await SqsHelper.getMessages({
+        batchSize: 1,
+        endpoint: ENDPOINT,
+        keep: true,
+        queueUrl,
+        visibilityTimeout: 60,
+      });
+
+      const actual = await SqsHelper.getQueueStats({
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+
+      expect(actual).toStrictEqual({ delayed: 1, inFlight: 1, visible: 2 });
+    });
+  });
+
+  describe("receiveOldestMessageAge", () => {
+    it("gets the age of the oldest received message", async () => {
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: ["0", "1"],
+        queueUrl,
+      });
+
+      const actual = await SqsHelper.receiveOldestMessageAge({
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+
+      expect(actual).toStrictEqual({
+        oldestMessageAge: expect.any(Number),
+        receivedMessages: 2,
+      });
+    });
+
+    describe("empty queue", () => {
+      it("returns no age", async () => {
+        const actual = await SqsHelper.receiveOldestMessageAge({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        expect(actual).toStrictEqual({ receivedMessages: 0 });
+      });
+    });
+  });
+
+  describe("jsonMessages", () => {
+    it("streams messages parsed as JSON and skips invalid ones", async () => {
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: ["invalid", JSON.stringify({ id: 0 })],
+        queueUrl,
+      });
+
+      const actual: unknown[] = [];
+      for await (const message of SqsHelper.jsonMessages({
+        endpoint: ENDPOINT,
+        queueUrl,
+        visibilityTimeout: 5,
+      })) {
+        actual.push(message.Object);
+        break;
+      }
+
+      expect(actual).toStrictEqual([{ id: 0 }]);
+    });
+
+    describe("invalid message", () => {
+      it("deletes the message", async () => {
+        await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: ["invalid"],
+          queueUrl,
+        });
+
+        const actual: unknown[] = [];
+        for await (const message of SqsHelper.jsonMessages({
+          abortSignal: AbortSignal.timeout(2000),
+          endpoint: ENDPOINT,
+          queueUrl,
+          waitTime: 1,
+        })) {
+          actual.push(message.Object);
+        }
+
+        expect(actual).toStrictEqual([]);
+        expect(
+          await SqsHelper.getQueueStats({ endpoint: ENDPOINT, queueUrl }),
+        ).toStrictEqual({ delayed: 0, inFlight: 0, visible: 0 });
+      });
+    });
+
+    describe("strict", () => {
+      it("throws error", async () => {
+        await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: ["invalid"],
+          queueUrl,
+        });
+
+        const actual = SqsHelper.jsonMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+          strict: true,
+        }).next();
+
+        await expect(actual).rejects.toThrow(SyntaxError);
+      });
+    });
+  });
+
+  describe("messages", () => {
+    beforeEach(async () => {
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: ["0", "1", "2"],
+        queueUrl,
+      });
+    });
+
+    it("streams messages and acknowledges them", async () => {
+      const actual: string[] = [];
+      for await (const message of SqsHelper.messages({
+        endpoint: ENDPOINT,
+        queueUrl,
+      })) {
+        actual.push(message.Body!);
+        if (actual.length === 3) {
+          await message.ack();
+          break;
+        }
+      }
+
+      const { messages } = await SqsHelper.getMessages({
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+      expect(actual.sort()).toStrictEqual(["0", "1", "2"]);
+      expect(messages).toHaveLength(0);
+    });
+
+    describe("autoAck disabled", () => {
+      it("keeps the messages that are not acknowledged", async () => {
+        let count = 0;
+        for await (const message of SqsHelper.messages({
+          autoAck: false,
+          endpoint: ENDPOINT,
+          queueUrl,
+          visibilityTimeout: 1,
+        })) {
+          if (message.Body === "0") {
+            await message.ack();
+          }
+          if (++count === 3) {
+            break;
+          }
+        }
+        await delay(1500);
+
+        const { messages } = await SqsHelper.getMessages({
+          batchSize: 2,
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+        expect(messages.map((m) => m.Body).sort()).toStrictEqual(["1", "2"]);
+      });
+    });
+
+    describe("break", () => {
+      it("releases the current message and the ones that were not consumed", async () => {
+        for await (const message of SqsHelper.messages({
+          batchSize: 10,
+          endpoint: ENDPOINT,
+          queueUrl,
+          visibilityTimeout: 30,
+          waitTime: 1,
+        })) {
+          expect(message.Body).toBeDefined();
+          break;
+        }
+
+        const { messages } = await SqsHelper.getMessages({
+          batchSize: 3,
+          endpoint: ENDPOINT,
+          maxWaitTime: 5,
+          queueUrl,
+        });
+        expect(messages.map((m) => m.Body).sort()).toStrictEqual([
+          "0",
+          "1",
+          "2",
+        ]);
+      });
+    });
+
+    describe("abortSignal aborted", () => {
+      it("stops streaming", async () => {
+        const abortController = new AbortController();
+        const actual: string[] = [];
+        for await (const message of SqsHelper.messages({
+          abortSignal: abortController.signal,
+          endpoint: ENDPOINT,
+          queueUrl,
+        })) {
+          actual.push(message.Body!);
+          if (actual.length === 3) {
+            abortController.abort();
+          }
+        }
+
+        expect(actual).toHaveLength(3);
+      });
+    });
+  });
+
+  describe("redriveMessages", () => {
+    let queue: TemporaryQueue;
+    beforeEach(async () => {
+      queue = await SqsHelper.createTemporaryQueue({
+        deadLetterQueue: { maxReceiveCount: 1 },
+        endpoint: ENDPOINT,
+      });
+      await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: [
+          {
+            MessageAttributes: {
+              type: { DataType: "String", StringValue: "order" },
+            },
+            MessageBody: "0",
+          },
+          "1",
+          "2",
+        ],
+        queueUrl: queue.deadLetterQueue!.url,
+      });
+    });
+
+    afterEach(async () => {
+      await queue.delete();
+    });
+
+    it("moves messages to the source queue", async () => {
+      const actual = await SqsHelper.redriveMessages({
+        endpoint: ENDPOINT,
+        queueUrl: queue.deadLetterQueue!.url,
+      });
+
+      const { messages } = await SqsHelper.getMessages({
+        batchSize: 3,
+        endpoint: ENDPOINT,
+        queueUrl: queue.url,
+      });
+      expect(actual).toStrictEqual({
+        moved: 3,
+        skipped: 0,
+        targetQueueUrl: queue.url,
+      });
+      expect(messages.map((m) => m.Body).sort()).toStrictEqual(["0", "1", "2"]);
+      expect(
+        messages.find((m) => m.Body === "0")?.MessageAttributes,
+      ).toMatchObject({ type: { DataType: "String", StringValue: "order" } });
+    });
+
+    describe("filter", () => {
+      it("moves matching messages only", async () => {
+        const actual = await SqsHelper.redriveMessages({
+          endpoint: ENDPOINT,
+          filter: (m) => m.Body !== "1",
+          queueUrl: queue.deadLetterQueue!.url,
+          targetQueueUrl: queueUrl,
+        });
+
+        const [moved, left] = await Promise.all([
+          SqsHelper.getMessages({ batchSize: 3, endpoint: ENDPOINT, queueUrl }),
+          SqsHelper.getMessages({
+            batchSize: 3,
+            endpoint: ENDPOINT,
+            queueUrl: queue.deadLetterQueue!.url,
+          }),
+        ]);
+        expect(actual).toStrictEqual({
+          moved: 2,
+          skipped: 1,
+          targetQueueUrl: queueUrl,
+        });
+        expect(moved.messages.map((m) => m.Body).sort()).toStrictEqual([
+          "0",
+          "2",
+        ]);
+        expect(left.messages.map((m) => m.Body)).toStrictEqual(["1"]);
+      });
+    });
+
+    describe("no source queue", () => {
+      it("throws error", async () => {
+        const actual = SqsHelper.redriveMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+        });
+
+        await expect(actual).rejects.toThrow(Error);
+      });
+    });
+
+    describe("same target queue", () => {
+      it("throws error without moving messages", async () => {
+        await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: ["0"],
+          queueUrl,
+        });
+
+        const actual = SqsHelper.redriveMessages({
+          endpoint: ENDPOINT,
+          queueUrl,
+          targetQueueUrl: queueUrl,
+        });
+
+        await expect(actual).rejects.toThrow(Error);
+        expect(
+          await SqsHelper.getQueueStats({ endpoint: ENDPOINT, queueUrl }),
+        ).toStrictEqual({ delayed: 0, inFlight: 0, visible: 1 });
+      });
+    });
+  });
+
+  describe("setClient", () => {
+    afterEach(async () => {
+      await SqsHelper.dispose();
+    });
+
+    it("uses the client for the endpoint", async () => {
+      const client = new SQSClient({ endpoint: ENDPOINT });
+      const send = vi.spyOn(client, "send");
+      SqsHelper.setClient({ client, endpoint: ENDPOINT });
+
+      const actual = await SqsHelper.send({
+        command: new GetQueueUrlCommand({ QueueName: queueName }),
+        endpoint: ENDPOINT,
+      });
+
+      expect(actual.QueueUrl).toBe(queueUrl);
+      expect(send).toHaveBeenCalledOnce();
+      client.destroy();
+    });
+  });
+
+  describe("setClientConfig", () => {
+    afterEach(() => {
+      SqsHelper.setClientConfig({ config: {} });
+      SqsHelper.setClientConfig({ config: {}, endpoint: ENDPOINT });
+    });
+
+    it.each([undefined, ENDPOINT])(
+      "creates clients with the configuration (endpoint: %s)",
+      async (endpoint) => {
+        SqsHelper.setClientConfig({
+          config: { region: "eu-west-1" },
+          endpoint,
+        });
+
+        const { queueUrl } = await SqsHelper.upsertQueue({
+          command: new CreateQueueCommand({ QueueName: randomUUID() }),
+          endpoint: ENDPOINT,
+        });
+        const actual = await SqsHelper.send({
+          command: new GetQueueAttributesCommand({
+            AttributeNames: ["QueueArn"],
+            QueueUrl: queueUrl,
+          }),
+          endpoint: ENDPOINT,
+        });
+
+        expect(actual.Attributes?.QueueArn).toMatch(/^arn:aws:sqs:eu-west-1:/);
+      },
+    );
+  });
+
+  describe("sendJsonMessages", () => {
+    it("sends messages with JSON bodies", async () => {
+      const { messageIds } = await SqsHelper.sendJsonMessages({
+        endpoint: ENDPOINT,
+        messages: Array.from({ length: 3 }).map((_, id) => ({
+          Object: { id },
+        })),
+        queueUrl,
+      });
+
+      const actual = await SqsHelper.getJsonMessages({
+        batchSize: 3,
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+
+      expect(actual.messages).toStrictEqual(
+        expect.arrayContaining(
+          Array.from({ length: 3 }).map((_, id) =>
+            expect.objectContaining({
+              MessageId: messageIds[id],
+              Object: { id },
+            }),
+          ),
+        ),
+      );
+    });
+  });
+
+  describe("sendMessages", () => {
+    it("sends messages in batches", async () => {
+      const { messageIds } = await SqsHelper.sendMessages({
+        endpoint: ENDPOINT,
+        messages: [
+          ...Array.from({ length: 20 }).map((_, id) => id.toString()),
+          {
+            MessageAttributes: {
+              attribute: { DataType: "String", StringValue: "value" },
+            },
+            MessageBody: "20",
+          },
+        ],
+        queueUrl,
+      });
+
+      const actual = await SqsHelper.getMessages({
+        batchSize: 21,
+        endpoint: ENDPOINT,
+        queueUrl,
+      });
+
+      expect(messageIds).toHaveLength(21);
+      expect(actual.messages).toStrictEqual(
+        expect.arrayContaining(
+          Array.from({ length: 21 }).map((_, id) =>
+            expect.objectContaining({
+              Body: id.toString(),
+              MessageId: messageIds[id],
+            }),
+          ),
+        ),
+      );
+      expect(
+        actual.messages.find((m) => m.Body === "20")?.MessageAttributes,
+      ).toMatchObject({
+        attribute: { DataType: "String", StringValue: "value" },
+      });
+    });
+
+    describe("large messages", () => {
+      it("sends messages in batches within the size limit", async () => {
+        const body = "x".repeat(100 * 1024);
+
+        const { messageIds } = await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: [body, body, body],
+          queueUrl,
+        });
+
+        expect(messageIds).toHaveLength(3);
+      });
+    });
+
+    describe("message exceeds the size limit", () => {
+      it("throws error", async () => {
+        const actual = SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: ["x".repeat(256 * 1024 + 1)],
+          queueUrl,
+        });
+
+        await expect(actual).rejects.toThrow();
+      });
+    });
+
+    describe("FIFO queue", () => {
+      afterEach(async () => {
+        await SqsHelper.dispose();
+      });
+
+      it("sends the message group and deduplication IDs", async () => {
+        const { queueUrl } = await SqsHelper.upsertQueue({
+          command: new CreateQueueCommand({
+            Attributes: { FifoQueue: "true" },
+            QueueName: `${randomUUID()}.fifo`,
+          }),
+          endpoint: ENDPOINT,
+        });
+        const client = new SQSClient({ endpoint: ENDPOINT });
+        const send = vi.spyOn(client, "send");
+        SqsHelper.setClient({ client, endpoint: ENDPOINT });
+
+        const { messageIds } = await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: [
+            {
+              MessageBody: "body",
+              MessageDeduplicationId: "deduplication",
+              MessageGroupId: "group",
+            },
+          ],
+          queueUrl,
+        });
+
+        expect(messageIds).toHaveLength(1);
+        expect(send.mock.calls[0][0].input).toStrictEqual({
+          Entries: [
+            {
+              Id: "0",
+              MessageBody: "body",
+              MessageDeduplicationId: "deduplication",
+              MessageGroupId: "group",
+            },
+          ],
+          QueueUrl: queueUrl,
+        });
+        client.destroy();
+      });
+    });
+
+    describe("partially failed batch", () => {
+      let client: SQSClient;
+      const mockSendMessageBatch = (
+        ...outputs: Partial<SendMessageBatchCommandOutput>[]
+      ) => {
+        const mock = vi.spyOn(client, "send");
+        for (const output of outputs) {
+          mock.mockResolvedValueOnce(output as never);
+        }
+        return mock;
+      };
+      const serviceError = (Id: string): BatchResultErrorEntry => ({
+        Code: "InternalError",
+        Id,
+        Message: "error",
+        SenderFault: false,
+      });
+      const sent = (Id: string): SendMessageBatchResultEntry => ({
+        Id,
+        MD5OfMessageBody: "",
+        MessageId: `message-${Id}`,
+      });
+
+      beforeEach(() => {
+        client = new SQSClient({ endpoint: ENDPOINT });
+        SqsHelper.setClient({ client, endpoint: ENDPOINT });
+      });
+
+      afterEach(async () => {
+        await SqsHelper.dispose();
+        client.destroy();
+      });
+
+      it("retries the failed entries", async () => {
+        const send = mockSendMessageBatch(
+          {
+            Failed: [serviceError("0"), serviceError("2")],
+            Successful: [sent("1")],
+          },
+          { Failed: [serviceError("2")], Successful: [sent("0")] },
+          { Failed: [], Successful: [sent("2")] },
+        );
+
+        const actual = await SqsHelper.sendMessages({
+          endpoint: ENDPOINT,
+          messages: ["0", "1", "2"],
+          queueUrl,
+        });
+
+        expect(actual.messageIds).toStrictEqual([
+          "message-0",
+          "message-1",
+          "message-2",
+        ]);
+        expect(
+          send.mock.calls.map(([command]) =>
+            (command.input as SendMessageBatchRequest).Entries?.map(
+              ({ Id }) => Id,
+            ),
+          ),
+        ).toStrictEqual([["0", "1", "2"], ["0", "2"], ["2"]]);
+      });
+
+      describe("maxAttempts reached", () => {
+        it("throws error", async () => {
+          const send = mockSendMessageBatch(
+            { Failed: [serviceError("0")], Successful: [] },
+            { Failed: [serviceError("0")], Successful: [] },
+          );
+
+          const actual = SqsHelper.sendMessages({
+            endpoint: ENDPOINT,
+            maxAttempts: 2,
+            messages: ["0"],
+            queueUrl,
+          });
+
+          await expect(actual).rejects.toThrow(Error);
+          expect(send).toHaveBeenCalledTimes(2);
+        });
+      });
+
+      describe("sender fault", () => {
+        it("throws error without retrying", async () => {
+          const send = mockSendMessageBatch({
+            Failed: [{ ...serviceError("0"), SenderFault: true }],
+            Successful: [],
+          });
+
+          const actual = SqsHelper.sendMessages({
+            endpoint: ENDPOINT,
+            messages: ["0"],
+            queueUrl,
+          });
+
+          await expect(actual).rejects.toThrow(Error);
+          expect(send).toHaveBeenCalledOnce();
+        });
+      });
+    });
+  });
+
+  describe("sweepTemporaryQueues", () => {
+    it("deletes the queues older than the specified age", async () => {
+      const prefix = `sweep-${randomUUID().slice(0, 8)}-`;
+      const queue = await SqsHelper.createTemporaryQueue({
+        endpoint: ENDPOINT,
+        prefix,
+      });
+
+      const recent = await SqsHelper.sweepTemporaryQueues({
+        endpoint: ENDPOINT,
+        olderThan: 60_000,
+        prefix,
+      });
+      await delay(1000);
+      const old = await SqsHelper.sweepTemporaryQueues({
+        endpoint: ENDPOINT,
+        olderThan: 0,
+        prefix,
+      });
+
+      expect(recent.queueUrls).toStrictEqual([]);
+      expect(old.queueUrls).toStrictEqual([queue.url]);
+    });
+  });
+
+  describe("upsertQueue", () => {
+    it("creates queue", async () => {
+      const { QueueUrl: expected } = await SqsHelper.send({
+        command: new GetQueueUrlCommand({
+          QueueName: queueName,
+        }),
+        endpoint: ENDPOINT,
+      });
+
+      expect(expected).toBe(queueUrl);
+    });
+
+    describe("dryRun", () => {
+      describe("non-existent queue", () => {
+        it("does not create queue", async () => {
+          const command = new CreateQueueCommand({ QueueName: randomUUID() });
+
+          const actual = await SqsHelper.upsertQueue({
+            command,
+            dryRun: true,
+            endpoint: ENDPOINT,
+          });
+
+          const url = SqsHelper.send({
+            command: new GetQueueUrlCommand({
+              QueueName: command.input.QueueName,
+            }),
+            endpoint: ENDPOINT,
+          });
+
+          expect(actual).toStrictEqual({
+            action: "create",
+            diff: [],
+            queueUrl: undefined,
+          });
+          await expect(url).rejects.toThrow(QueueDoesNotExist);
+        });
+      });
+    });
+
+    describe("existing queue", () => {
+      describe("same attributes", () => {
         it("is no-op", async () => {
           const { queueUrl: actual } = await SqsHelper.upsertQueue({
             command: new CreateQueueCommand({ QueueName: queueName }),
@@ -268,6 +1579,85 @@ describe("SQSHelper", () => {
 
           expect(queueUrl).toBe(actual);
         });
+
+        describe("semantically equal JSON attributes", () => {
+          it("is no-op", async () => {
+            const redrivePolicy = {
+              deadLetterTargetArn: `arn:aws:sqs:us-east-1:000000000000:${randomUUID()}`,
+              maxReceiveCount: 3,
+            };
+            const redriveQueueName = randomUUID();
+            await SqsHelper.upsertQueue({
+              command: new CreateQueueCommand({
+                Attributes: {
+                  RedrivePolicy: JSON.stringify(redrivePolicy),
+                },
+                QueueName: redriveQueueName,
+              }),
+              endpoint: ENDPOINT,
+            });
+
+            const actual = await SqsHelper.upsertQueue({
+              command: new CreateQueueCommand({
+                Attributes: {
+                  RedrivePolicy: JSON.stringify({
+                    maxReceiveCount: "3",
+                    deadLetterTargetArn: redrivePolicy.deadLetterTargetArn,
+                  }),
+                },
+                QueueName: redriveQueueName,
+              }),
+              endpoint: ENDPOINT,
+            });
+
+            expect(actual).toMatchObject({ action: "none", diff: [] });
+          });
+        });
+      });
+
+      describe("FIFO queue", () => {
+        let fifoQueueName: string;
+        beforeEach(async () => {
+          fifoQueueName = `${randomUUID()}.fifo`;
+          await SqsHelper.upsertQueue({
+            command: new CreateQueueCommand({
+              Attributes: { FifoQueue: "true" },
+              QueueName: fifoQueueName,
+            }),
+            endpoint: ENDPOINT,
+          });
+        });
+
+        describe("same attributes", () => {
+          it("is no-op", async () => {
+            const actual = SqsHelper.upsertQueue({
+              command: new CreateQueueCommand({
+                Attributes: { FifoQueue: "true" },
+                QueueName: fifoQueueName,
+              }),
+              endpoint: ENDPOINT,
+            });
+
+            await expect(actual).resolves.toBeDefined();
+          });
+        });
+
+        describe("different attributes", () => {
+          it("throws QueueNameExists", async () => {
+            const actual = SqsHelper.upsertQueue({
+              command: new CreateQueueCommand({
+                Attributes: {
+                  ContentBasedDeduplication: "true",
+                  FifoQueue: "true",
+                },
+                QueueName: fifoQueueName,
+              }),
+              endpoint: ENDPOINT,
+            });
+
+            await expect(actual).rejects.toThrow(QueueNameExists);
+          });
+        });
       });
 
       describe("different attributes", () => {
@@ -285,6 +1675,56 @@ describe("SQSHelper", () => {
           await expect(actual).rejects.toThrow(QueueNameExists);
         });
 
+        describe("dryRun", () => {
+          it("returns differences without re-creating queue", async () => {
+            const actual = await SqsHelper.upsertQueue({
+              command: new CreateQueueCommand({
+                QueueName: queueName,
+                Attributes: {
+                  DelaySeconds: "1",
+                },
+                tags: {
+                  tag: "value",
+                },
+              }),
+              dryRun: true,
+              endpoint: ENDPOINT,
+            });
+
+            const attributes = await SqsHelper.send({
+              command: new GetQueueAttributesCommand({
+                AttributeNames: ["DelaySeconds"],
+                QueueUrl: queueUrl,
+              }),
+              endpoint: ENDPOINT,
+            });
+
+            expect(actual).toStrictEqual({
+              action: "recreate",
+              diff: [
+                {
+                  actual: "0",
+                  expected: "1",
+                  name: "DelaySeconds",
+                  type: "attribute",
+                },
+                {
+                  actual: undefined,
+                  expected: "value",
+                  name: "tag",
+                  type: "tag",
+                },
+              ],
+              queueUrl,
+            });
+            expect(attributes).toMatchObject({
+              Attributes: {
+                DelaySeconds: "0",
+              },
+            });
+          });
+        });
+
         describe("force", () => {
           it("re-creates queue with new attributes", async () => {
             const { queueUrl } = await SqsHelper.upsertQueue({
@@ -316,4 +1756,82 @@ describe("SQSHelper", () => {
       });
     });
   });
+
+  describe("upsertQueueWithDeadLetterQueue", () => {
+    it("creates queue and dead-letter queue", async () => {
+      const { deadLetterQueue, queue } =
+        await SqsHelper.upsertQueueWithDeadLetterQueue({
+          command: new CreateQueueCommand({
+            QueueName: `${queueName}-source`,
+            tags: { team: "test" },
+          }),
+          deadLetterQueue: { maxReceiveCount: 3 },
+          endpoint: ENDPOINT,
+        });
+
+      const { Attributes } = await SqsHelper.send({
+        command: new GetQueueAttributesCommand({
+          AttributeNames: ["RedrivePolicy"],
+          QueueUrl: queue.url,
+        }),
+        endpoint: ENDPOINT,
+      });
+      expect(queue).toMatchObject({
+        action: "create",
+        name: `${queueName}-source`,
+      });
+      expect(deadLetterQueue).toMatchObject({
+        action: "create",
+        name: `${queueName}-source-dlq`,
+      });
+      expect(JSON.parse(Attributes!.RedrivePolicy!)).toStrictEqual({
+        deadLetterTargetArn: deadLetterQueue.arn,
+        maxReceiveCount: 3,
+      });
+    });
+
+    describe("existing queues", () => {
+      it("is no-op", async () => {
+        const input = {
+          command: new CreateQueueCommand({ QueueName: `${queueName}-source` }),
+          deadLetterQueue: {
+            command: new CreateQueueCommand({ QueueName: `${queueName}-dlq` }),
+            maxReceiveCount: 3,
+          },
+          endpoint: ENDPOINT,
+        };
+        await SqsHelper.upsertQueueWithDeadLetterQueue(input);
+
+        const actual = await SqsHelper.upsertQueueWithDeadLetterQueue(input);
+
+        expect(actual).toMatchObject({
+          deadLetterQueue: { action: "none", name: `${queueName}-dlq` },
+          queue: { action: "none", name: `${queueName}-source` },
+        });
+      });
+    });
+
+    describe("invalid queue", () => {
+      it("deletes the created dead-letter queue", async () => {
+        const actual = SqsHelper.upsertQueueWithDeadLetterQueue({
+          command: new CreateQueueCommand({
+            Attributes: { DelaySeconds: "-1" },
+            QueueName: `${queueName}-source`,
+          }),
+          deadLetterQueue: { maxReceiveCount: 3 },
+          endpoint: ENDPOINT,
+        });
+
+        await expect(actual).rejects.toThrow();
+        await expect(
+          SqsHelper.send({
+            command: new GetQueueUrlCommand({
+              QueueName: `${queueName}-source-dlq`,
+            }),
+            endpoint: ENDPOINT,
+          }),
+        ).rejects.toThrow(QueueDoesNotExist);
+      });
+    });
+  });
 });
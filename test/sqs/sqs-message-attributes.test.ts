@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import { SqsLambdaHelper } from "../../src/lambda/sqs/sqs-lambda-helper";
+import { SqsMessageAttributes } from "../../src/sqs/sqs-message-attributes";
+
+const BYTES = new Uint8Array([0, 1, 2]);
+
+describe("SqsMessageAttributes", () => {
+  describe("encode", () => {
+    it("infers data types", () => {
+      const actual = SqsMessageAttributes.encode({
+        big: 2n ** 64n,
+        bytes: BYTES,
+        count: 3,
+        missing: undefined,
+        type: "order",
+      });
+
+      expect(actual).toStrictEqual({
+        big: { DataType: "Number", StringValue: "18446744073709551616" },
+        bytes: { BinaryValue: BYTES, DataType: "Binary" },
+        count: { DataType: "Number", StringValue: "3" },
+        type: { DataType: "String", StringValue: "order" },
+      });
+    });
+
+    describe("custom data type", () => {
+      it("uses the data type", () => {
+        const actual = SqsMessageAttributes.encode({
+          price: { dataType: "Number.float", value: 1.5 },
+          id: { dataType: "String.uuid", value: "id" },
+        });
+
+        expect(actual).toStrictEqual({
+          id: { DataType: "String.uuid", StringValue: "id" },
+          price: { DataType: "Number.float", StringValue: "1.5" },
+        });
+      });
+    });
+
+    describe.each([
+      { testCase: "invalid name", values: { "a..b": "value" } },
+      { testCase: "reserved name", values: { "AWS.TraceHeader": "value" } },
+      { testCase: "empty value", values: { name: "" } },
+      { testCase: "non-finite number", values: { name: NaN } },
+      {
+        testCase: "too precise number",
+        values: { name: { dataType: "Number", value: "1".repeat(39) } },
+      },
+      {
+        testCase: "invalid number",
+        values: { name: { dataType: "Number", value: "text" } },
+      },
+      {
+        testCase: "non-binary value",
+        values: { name: { dataType: "Binary", value: "text" } },
+      },
+      {
+        testCase: "unsupported data type",
+        values: { name: { dataType: "Boolean", value: "true" } },
+      },
+      {
+        testCase: "too many attributes",
+        values: Object.fromEntries(
+          Array.from({ length: 11 }, (_, i) => [`name${i}`, i]),
+        ),
+      },
+      {
+        testCase: "too large attributes",
+        values: { name: "a".repeat(262144) },
+      },
+    ])("$testCase", ({ values }) => {
+      it("throws error", () => {
+        expect(() => SqsMessageAttributes.encode(values)).toThrow(Error);
+      });
+    });
+  });
+
+  describe("decode", () => {
+    const values = {
+      big: 2n ** 64n,
+      bytes: BYTES,
+      count: 3,
+      price: { dataType: "Number.float", value: 1.5 },
+      type: "order",
+    };
+    const expected = {
+      big: 2n ** 64n,
+      bytes: BYTES,
+      count: 3,
+      price: 1.5,
+      type: "order",
+    };
+
+    describe("SDK message attributes", () => {
+      it("decodes values", () => {
+        const actual = SqsMessageAttributes.decode(
+          SqsMessageAttributes.encode(values),
+        );
+
+        expect(actual).toStrictEqual(expected);
+      });
+    });
+
+    describe("Lambda event message attributes", () => {
+      it("decodes values", () => {
+        const {
+          event: {
+            Records: [record],
+          },
+        } = SqsLambdaHelper.createSqsEvent({
+          messages: [
+            {
+              body: "body",
+              messageAttributes: SqsMessageAttributes.encode(values),
+            },
+          ],
+        });
+
+        const actual = SqsMessageAttributes.decode(record.messageAttributes);
+
+        expect(actual).toStrictEqual(expected);
+      });
+    });
+
+    describe("no attributes", () => {
+      it("returns empty object", () => {
+        expect(SqsMessageAttributes.decode(undefined)).toStrictEqual({});
+      });
+    });
+  });
+
+  describe("getSize", () => {
+    it("gets the size of names, types and values", () => {
+      const actual = SqsMessageAttributes.getSize({
+        bytes: { BinaryValue: BYTES, DataType: "Binary" },
+        type: { DataType: "String", StringValue: "order" },
+      });
+
+      expect(actual).toBe(5 + 6 + 3 + 4 + 6 + 5);
+    });
+  });
+});
@@ -12,6 +12,8 @@ export default defineConfig({
   ...BASE_CONFIG,
   entry,
   format: "cjs",
+  // e.g. `import.meta.url`, which locates the isolated runtime next to the Lambda helper
+  shims: true,
   outDir: "dist/cjs",
   outExtension() {
     return { js: `.cjs` };
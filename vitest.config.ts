@@ -4,7 +4,8 @@ export default defineConfig({
   test: {
     coverage: {
       enabled: true,
-      exclude: ["src/**/index.ts"],
+      // the isolated runtime runs in workers and child processes, which are not covered
+      exclude: ["src/**/index.ts", "src/lambda/isolated-runtime.ts"],
       include: ["src/**"],
       thresholds: {
         branches: 80,